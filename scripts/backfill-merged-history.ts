@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+import process from "node:process";
+
+type CliOptions = {
+  url: string;
+  token: string;
+  until?: string;
+  months?: number;
+  reset: boolean;
+  wait: boolean;
+};
+
+type BackfillResponse = {
+  ok?: boolean;
+  status?: string;
+  message?: string;
+  error?: string;
+  monthsProcessed?: number;
+  runningRunId?: string;
+  checkpoint?: {
+    until: string;
+    nextTo: string | null;
+    monthsCompleted: number;
+    lastError: string | null;
+  } | null;
+  rateLimit?: {
+    resources: Record<string, { remaining: number; resetAt: string | null }>;
+  };
+};
+
+const DEFAULT_URL = "http://127.0.0.1:5173";
+const BLOCKED_RETRY_MS = 60_000;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 60 * 1000;
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: Partial<CliOptions> = {
+    url: DEFAULT_URL,
+    token: process.env["TRIGGER_TOKEN"],
+    reset: false,
+    wait: true,
+  };
+
+  for (let index = 2; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case "--url":
+        options.url = argv[++index];
+        break;
+      case "--token":
+        options.token = argv[++index];
+        break;
+      case "--until":
+        options.until = argv[++index];
+        break;
+      case "--months":
+        options.months = Number.parseInt(argv[++index] ?? "", 10);
+        if (!Number.isFinite(options.months) || options.months <= 0) {
+          throw new Error("Months must be a positive integer.");
+        }
+        break;
+      case "--reset":
+        options.reset = true;
+        break;
+      case "--no-wait":
+        options.wait = false;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+        break;
+      default:
+        throw new Error(
+          `Unknown argument "${arg}". Run with --help for usage.`,
+        );
+    }
+  }
+
+  if (!options.token) {
+    throw new Error("Missing bearer token. Pass --token or set TRIGGER_TOKEN.");
+  }
+
+  return options as CliOptions;
+}
+
+function printHelp(): void {
+  console.log(
+    [
+      "Usage: npm run backfill:merged -- --until 2021-01-01 [options]",
+      "",
+      "Options:",
+      `  --url <url>       Worker base URL (default: ${DEFAULT_URL})`,
+      "  --token <token>   Admin bearer token (default: $TRIGGER_TOKEN)",
+      "  --until <date>    Oldest merge date to archive (YYYY-MM-DD); required for a new walk",
+      "  --months <count>  Months to process per request (worker default: 3)",
+      "  --reset           Discard the checkpoint and rebuild the archive",
+      "  --no-wait         Exit instead of waiting when the worker pauses for rate limits",
+      "",
+      "Calls /api/backfill/merged repeatedly until the walk is complete. Progress",
+      "is checkpointed by the worker, so the script can be re-run after failures.",
+    ].join("\n"),
+  );
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function graphqlResetDelay(response: BackfillResponse): number | null {
+  const resetAt = response.rateLimit?.resources["graphql"]?.resetAt;
+  if (!resetAt) return null;
+  return Math.max(0, new Date(resetAt).getTime() - Date.now());
+}
+
+async function requestBackfill(
+  options: CliOptions,
+  first: boolean,
+): Promise<{ status: number; body: BackfillResponse }> {
+  const endpoint = new URL("/api/backfill/merged", options.url);
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${options.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...(options.until ? { until: options.until } : {}),
+      ...(options.months ? { months: options.months } : {}),
+      // Only the first request may reset; later ones resume the new walk.
+      reset: first && options.reset,
+    }),
+  });
+  return {
+    status: response.status,
+    body: (await response.json()) as BackfillResponse,
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv);
+  let first = true;
+
+  while (true) {
+    const { status, body } = await requestBackfill(options, first);
+
+    if (status === 409) {
+      console.log(
+        `Another run (${body.runningRunId ?? "unknown"}) holds the ingest lock; retrying in a minute.`,
+      );
+      await sleep(BLOCKED_RETRY_MS);
+      continue;
+    }
+    first = false;
+    if (status >= 400 || !body.ok) {
+      throw new Error(
+        body.error ??
+          body.checkpoint?.lastError ??
+          body.message ??
+          `Backfill request failed with HTTP ${status}`,
+      );
+    }
+
+    const checkpoint = body.checkpoint;
+    console.log(
+      `${body.status}: ${body.monthsProcessed ?? 0} month(s) this call, ${checkpoint?.monthsCompleted ?? 0} total, next ${checkpoint?.nextTo ?? "none"} (until ${checkpoint?.until ?? "?"}).`,
+    );
+
+    if (body.status === "complete") {
+      return;
+    }
+    if (body.status === "paused") {
+      const delay = graphqlResetDelay(body);
+      if (!options.wait || delay === null || delay > MAX_RATE_LIMIT_WAIT_MS) {
+        console.log("Paused for rate limits; re-run later to resume.");
+        return;
+      }
+      console.log(
+        `Waiting ${Math.ceil(delay / 1000)}s for the GraphQL quota to reset...`,
+      );
+      await sleep(delay + 5_000);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    `[backfill-merged-history] ${error instanceof Error ? error.message : error}`,
+  );
+  process.exit(1);
+});
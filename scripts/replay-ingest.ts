@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import process from "node:process";
+import { ingest } from "../worker/ingest.ts";
+import { createMemoryEnv } from "../worker/memoryEnv.ts";
+import {
+  createRecordingDataSource,
+  createReplayDataSource,
+  type QueueDataSource,
+  type RecordedExchange,
+} from "../worker/queueDataSource.ts";
+
+type CliOptions = {
+  mode: "record" | "replay";
+  dir: string;
+  runs: number;
+  force: boolean;
+  verbose: boolean;
+};
+
+const DEFAULT_FIXTURE_DIR = "vendor/fixtures/ingest";
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    mode: "replay",
+    dir: DEFAULT_FIXTURE_DIR,
+    runs: 1,
+    force: false,
+    verbose: false,
+  };
+
+  for (let index = 2; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case "--record":
+        options.mode = "record";
+        break;
+      case "--dir":
+        options.dir = argv[++index] ?? DEFAULT_FIXTURE_DIR;
+        break;
+      case "--runs":
+        options.runs = Number.parseInt(argv[++index] ?? "", 10);
+        if (!Number.isFinite(options.runs) || options.runs <= 0) {
+          throw new Error("Runs must be a positive integer.");
+        }
+        break;
+      case "--force":
+        options.force = true;
+        break;
+      case "--verbose":
+        options.verbose = true;
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+        break;
+      default:
+        throw new Error(
+          `Unknown argument "${arg}". Run with --help for usage.`,
+        );
+    }
+  }
+
+  return options;
+}
+
+function printHelp(): void {
+  console.log(
+    [
+      "Usage: npm run replay:ingest -- [options]",
+      "",
+      "Options:",
+      "  --record         Call GitHub with $GITHUB_TOKEN and save fixtures",
+      `  --dir <path>     Fixture directory (default: ${DEFAULT_FIXTURE_DIR})`,
+      "  --runs <count>   Consecutive ingest runs sharing one KV (default: 1)",
+      "  --force          Force a full refresh on the first run",
+      "  --verbose        Print every ingest log line",
+      "",
+      "Runs the worker ingest in Node against an in-memory KV. Record with",
+      "--runs 2 to capture the ETag 304 path of the second run, then replay",
+      "the same run count offline.",
+    ].join("\n"),
+  );
+}
+
+function fixtureFileName(exchange: RecordedExchange): string {
+  const { pathname } = new URL(exchange.request.url);
+  const slug = pathname.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "");
+  const sequence = String(exchange.sequence).padStart(4, "0");
+  return `${sequence}-${exchange.request.method.toLowerCase()}-${slug}.json`;
+}
+
+async function listFixtureFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir);
+    return entries.filter((name) => name.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function createRecorder(dir: string): Promise<QueueDataSource> {
+  const token = process.env["GITHUB_TOKEN"]?.trim();
+  if (!token) {
+    throw new Error(
+      "Missing GitHub token. Set GITHUB_TOKEN or run with `node --env-file=vendor/github.env ...`.",
+    );
+  }
+
+  await fs.mkdir(dir, { recursive: true });
+  for (const name of await listFixtureFiles(dir)) {
+    await fs.rm(path.join(dir, name));
+  }
+
+  const github: QueueDataSource = {
+    name: "github-token",
+    fetch: (url, init) => fetch(url, init),
+    getToken: async () => token,
+    invalidateToken: () => {},
+  };
+  return createRecordingDataSource(github, async (exchange) => {
+    const file = path.join(dir, fixtureFileName(exchange));
+    await fs.writeFile(file, `${JSON.stringify(exchange, null, 2)}\n`, "utf8");
+  });
+}
+
+async function createReplayer(dir: string): Promise<QueueDataSource> {
+  const files = await listFixtureFiles(dir);
+  if (files.length === 0) {
+    throw new Error(
+      `No fixtures found in ${dir}. Record some with --record first.`,
+    );
+  }
+  const exchanges = await Promise.all(
+    files.map(
+      async (name) =>
+        JSON.parse(await fs.readFile(path.join(dir, name), "utf8")) as unknown,
+    ),
+  );
+  console.log(`Loaded ${exchanges.length} recorded exchange(s) from ${dir}.`);
+  return createReplayDataSource(exchanges);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv);
+  const dataSource =
+    options.mode === "record"
+      ? await createRecorder(options.dir)
+      : await createReplayer(options.dir);
+
+  const env = createMemoryEnv({
+    QUEUE_CONFIG: process.env["QUEUE_CONFIG"] ?? "",
+  });
+
+  let failed = false;
+  for (let run = 1; run <= options.runs; run += 1) {
+    const result = await ingest(env, {
+      force: options.force && run === 1,
+      dataSource,
+    });
+    if (options.verbose) {
+      for (const entry of result.logs) {
+        console.log(`  [${entry.level}] ${entry.message}`);
+      }
+    }
+    console.log(
+      [
+        `Run ${run}/${options.runs}: ${result.ok ? "ok" : "failed"} — ${result.message}`,
+        `  summary=${result.summaryUpdated ?? false} open=${result.openDatasetUpdated ?? false} merged=${result.mergedDatasetUpdated ?? false} (${result.mergedRefreshMode ?? "n/a"}) closed=${result.closedDatasetUpdated ?? false}`,
+        ...(result.error ? [`  error: ${result.error}`] : []),
+      ].join("\n"),
+    );
+    failed ||= !result.ok;
+  }
+
+  if (options.mode === "record") {
+    console.log(`Fixtures written to ${options.dir}.`);
+  }
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    `[replay-ingest] ${error instanceof Error ? error.message : error}`,
+  );
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+import { createHmac, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import process from "node:process";
+
+type CliOptions = {
+  url: string;
+  event: string;
+  secret: string;
+  files: string[];
+};
+
+const DEFAULT_URL = "http://127.0.0.1:5173/api/webhook/github";
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: Partial<CliOptions> = {
+    url: DEFAULT_URL,
+    event: "pull_request",
+    secret: process.env["GITHUB_WEBHOOK_SECRET"],
+    files: [],
+  };
+
+  for (let index = 2; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case "--url":
+        options.url = argv[++index];
+        break;
+      case "--event":
+        options.event = argv[++index];
+        break;
+      case "--secret":
+        options.secret = argv[++index];
+        break;
+      case "--help":
+      case "-h":
+        printHelp();
+        process.exit(0);
+        break;
+      default:
+        if (!arg || arg.startsWith("--")) {
+          throw new Error(
+            `Unknown argument "${arg}". Run with --help for usage.`,
+          );
+        }
+        options.files?.push(arg);
+    }
+  }
+
+  if (!options.secret) {
+    throw new Error(
+      "Missing webhook secret. Pass --secret or set GITHUB_WEBHOOK_SECRET.",
+    );
+  }
+  if (!options.files || options.files.length === 0) {
+    throw new Error("Provide at least one captured payload file.");
+  }
+
+  return options as CliOptions;
+}
+
+function printHelp(): void {
+  console.log(
+    [
+      "Usage: npm run replay:webhook -- [options] <payload.json> [...more]",
+      "",
+      "Options:",
+      `  --url <url>        Webhook endpoint (default: ${DEFAULT_URL})`,
+      "  --event <name>     X-GitHub-Event header (default: pull_request)",
+      "  --secret <value>   Webhook secret (default: $GITHUB_WEBHOOK_SECRET)",
+      "",
+      "Each payload file is signed with the secret and posted in order, the way",
+      "GitHub delivers it. Use captured deliveries from the app's Advanced tab.",
+    ].join("\n"),
+  );
+}
+
+async function replay(
+  options: CliOptions,
+  file: string,
+): Promise<{ status: number; body: string }> {
+  const body = await fs.readFile(file, "utf8");
+  const signature = createHmac("sha256", options.secret)
+    .update(body)
+    .digest("hex");
+
+  const response = await fetch(options.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-GitHub-Event": options.event,
+      "X-GitHub-Delivery": randomUUID(),
+      "X-Hub-Signature-256": `sha256=${signature}`,
+    },
+    body,
+  });
+
+  return { status: response.status, body: await response.text() };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv);
+  let failures = 0;
+
+  for (const file of options.files) {
+    const result = await replay(options, file);
+    console.log(`${file} -> ${result.status} ${result.body}`);
+    if (result.status >= 400) {
+      failures += 1;
+    }
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    `[replay-webhook] ${error instanceof Error ? error.message : error}`,
+  );
+  process.exit(1);
+});
@@ -6,28 +6,220 @@ const datasetNamePattern = /^[A-Za-z0-9][A-Za-z0-9-_]{0,62}$/;
 const versionPattern = /^[A-Za-z0-9][A-Za-z0-9._-]{0,126}$/;
 const shaPattern = /^[A-Fa-f0-9]{8,128}$/;
 
-const pullRequestSchema = z.object({
+const basePullRequestSchema = z.object({
   id: z.number().int().nonnegative(),
   title: z.string(),
   url: z.string().url(),
-  type: z.union([z.literal("plugin"), z.literal("theme"), z.string()]),
+  type: z.string(),
   createdAt: z.string().datetime({ offset: true }),
 });
 
-const mergedPullRequestSchema = pullRequestSchema.extend({
+const mergeProjectionSchema = z.object({
+  estimatedAt: z.string().datetime({ offset: true }).nullable(),
+  earliestAt: z.string().datetime({ offset: true }).nullable(),
+  latestAt: z.string().datetime({ offset: true }).nullable(),
+});
+
+const submissionAttemptSchema = z.object({
+  id: z.number().int().nonnegative(),
+  url: z.string().url(),
+  createdAt: z.string().datetime({ offset: true }),
+  closedAt: z.string().datetime({ offset: true }),
+});
+
+/**
+ * Entry a submission PR adds to the community plugin or theme list. Plugins
+ * declare an `id`; themes are identified by `name`. `repo` is `owner/name`.
+ */
+export const submissionManifestSchema = z.object({
+  id: z.string().nullable(),
+  name: z.string().nullable(),
+  author: z.string().nullable(),
+  description: z.string().nullable(),
+  repo: z.string().nullable(),
+});
+
+/**
+ * Earlier PRs for the same plugin or theme that were closed without merge,
+ * oldest first, and the creation date of the first of them.
+ */
+const submissionShape = {
+  manifest: submissionManifestSchema.optional(),
+  previousAttempts: z.array(submissionAttemptSchema).optional(),
+  firstSubmittedAt: z.string().datetime({ offset: true }).optional(),
+};
+
+const pullRequestSchema = basePullRequestSchema.extend({
+  ...submissionShape,
+  /** First time the readiness label was applied, when the label history is known. */
+  readyForReviewAt: z.string().datetime({ offset: true }).nullable().optional(),
+  queuePosition: z.number().int().positive().optional(),
+  queueSize: z.number().int().positive().optional(),
+  projectedMerge: mergeProjectionSchema.optional(),
+});
+
+const mergedPullRequestSchema = basePullRequestSchema.extend({
+  ...submissionShape,
   mergedAt: z.string().datetime({ offset: true }),
   daysToMerge: z.number().nonnegative(),
+  readyForReviewAt: z.string().datetime({ offset: true }).nullable().optional(),
+  lastReadyForReviewAt: z
+    .string()
+    .datetime({ offset: true })
+    .nullable()
+    .optional(),
+  daysInReviewQueue: z.number().nonnegative().nullable().optional(),
+  author: z.string().nullable().optional(),
+  mergedBy: z.string().nullable().optional(),
+  mergeCommitSha: z.string().regex(shaPattern).nullable().optional(),
+  additions: z.number().int().nonnegative().optional(),
+  deletions: z.number().int().nonnegative().optional(),
+  changedFiles: z.number().int().nonnegative().optional(),
 });
 
-const waitEstimateSchema = z.object({
-  estimatedDays: z.number().nonnegative().nullable(),
-  range: z.object({
-    lower: z.number().nonnegative().nullable(),
-    upper: z.number().nonnegative().nullable(),
-  }),
+const closedPullRequestSchema = basePullRequestSchema.extend({
+  closedAt: z.string().datetime({ offset: true }),
+  daysOpen: z.number().nonnegative(),
+  labels: z.array(z.string()),
+});
+
+/**
+ * Any open PR with a queue type label, whatever its review state. `state` is
+ * the first configured state label the PR carries, or `null` when it has none;
+ * `stateSince` is when that label was last applied (or removed, for `null`),
+ * falling back to the creation date.
+ */
+const openSubmissionSchema = basePullRequestSchema.extend({
+  state: z.string().nullable(),
+  stateSince: z.string().datetime({ offset: true }),
+  daysInState: z.number().int().nonnegative(),
+  labels: z.array(z.string()),
+});
+
+/**
+ * Queue size on one UTC day, as of the last ingest run that day. `merged`
+ * counts merges on that day and is recomputed while the day is inside the
+ * merged history window. The not-ready fields are omitted on days without an
+ * open submissions listing.
+ */
+const queueHistoryEntrySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  recordedAt: z.string().datetime({ offset: true }),
+  readyTotal: z.number().int().nonnegative(),
+  byType: z.record(z.string(), z.number().int().nonnegative()),
+  notReadyTotal: z.number().int().nonnegative().optional(),
+  notReadyByState: z
+    .record(z.string(), z.number().int().nonnegative())
+    .optional(),
+  merged: z.number().int().nonnegative(),
+  mergedByType: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+const closureRateSchema = z.object({
+  closed: z.number().int().nonnegative(),
+  merged: z.number().int().nonnegative(),
+  rate: z.number().min(0).max(1).nullable(),
+});
+
+/**
+ * Empirical wait percentiles in days: half of new submissions are expected to
+ * be merged within `p50` days, 80% within `p80` and 95% within `p95`. `null`
+ * means the estimator has no bound, e.g. without recent merges. `sampleSize`
+ * observations from the trailing `windowDays` back the figures. `percentiles`
+ * holds any further percentiles the estimator is configured to report, keyed
+ * like `p90`.
+ */
+const waitEstimateValueSchema = z.object({
+  p50: z.number().nonnegative().nullable(),
+  p80: z.number().nonnegative().nullable(),
+  p95: z.number().nonnegative().nullable(),
+  sampleSize: z.number().int().nonnegative(),
+  windowDays: z.number().int().positive(),
   isHighVariance: z.boolean(),
+  percentiles: z
+    .record(z.string(), z.number().nonnegative().nullable())
+    .optional(),
 });
 
+/**
+ * Headline wait for a new submission, plus the figures of every enabled
+ * estimator keyed by estimator id. `method` names the estimator behind the
+ * headline figures.
+ */
+const waitEstimateSchema = waitEstimateValueSchema.extend({
+  method: z.string().optional(),
+  estimates: z.record(z.string(), waitEstimateValueSchema).optional(),
+});
+
+/**
+ * Simulated merge date of a new submission. `cumulative[i]` is the share of
+ * simulation runs in which it was merged within `i + 1` weeks; the curve stops
+ * once every run has finished or at `horizonWeeks`.
+ */
+const mergeForecastSchema = z.object({
+  runs: z.number().int().positive(),
+  seed: z.number().int().nonnegative(),
+  horizonWeeks: z.number().int().positive(),
+  cumulative: z.array(z.number().min(0).max(1)),
+});
+
+const queueTypeConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-_]{0,62}$/),
+  label: z.string().min(1),
+  displayName: z.string().min(1),
+  pluralName: z.string().min(1),
+  color: z.string().min(1),
+  accent: z.string().min(1).optional(),
+  /** File the submission PR adds its entry to, e.g. `community-plugins.json`. */
+  manifestFile: z.string().min(1).optional(),
+});
+
+export const queueConfigSchema = z
+  .object({
+    owner: z.string().min(1),
+    repo: z.string().min(1),
+    readyLabel: z.string().min(1),
+    /**
+     * Labels marking a submission's review state, in precedence order. The
+     * ready label is always tracked; defaults to the ready label alone.
+     */
+    stateLabels: z.array(z.string().min(1)).optional(),
+    types: z.array(queueTypeConfigSchema).min(1),
+    /**
+     * Duration the wait estimates are based on: time since the PR was opened,
+     * time under the readiness label, or time since the first submission.
+     * Defaults to the time since the PR was opened.
+     */
+    waitBasis: z.enum(["created", "reviewQueue", "firstSubmitted"]).optional(),
+    /**
+     * Wait estimators to run, in headline precedence order, with parameters
+     * checked against each estimator's own schema. Defaults to all of them.
+     */
+    estimators: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          params: z.record(z.string(), z.unknown()).optional(),
+        }),
+      )
+      .min(1)
+      .optional(),
+    /** Seed of the merge forecast's random source; defaults to a fixed one. */
+    forecastSeed: z.number().int().nonnegative().optional(),
+  })
+  .refine(
+    (config) =>
+      new Set(config.types.map((type) => type.id)).size === config.types.length,
+    { message: "Queue type ids must be unique", path: ["types"] },
+  )
+  .refine(
+    (config) =>
+      !config.estimators ||
+      new Set(config.estimators.map((estimator) => estimator.id)).size ===
+        config.estimators.length,
+    { message: "Wait estimator ids must be unique", path: ["estimators"] },
+  );
+
 const urlStringSchema = z.string().refine(
   (value) => {
     try {
@@ -57,35 +249,112 @@ export const datasetPointerSchema = datasetPointerWithoutMetadataSchema.extend({
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
+const rateLimitQuotaSchema = z.object({
+  limit: z.number().int().nonnegative().nullable(),
+  remaining: z.number().int().nonnegative(),
+  used: z.number().int().nonnegative().nullable(),
+  resetAt: z.string().datetime({ offset: true }).nullable(),
+});
+
+export const rateLimitStateSchema = z.object({
+  observedAt: z.string().datetime({ offset: true }),
+  resources: z.record(z.string(), rateLimitQuotaSchema),
+  graphqlCost: z.number().int().nonnegative(),
+  deferred: z.array(z.string()),
+});
+
+const dataQualityIssueSchema = z.object({
+  id: z.number().int().nonnegative(),
+  kind: z.enum([
+    "ghost-merge",
+    "unlabeled",
+    "duplicate",
+    "implausible-duration",
+  ]),
+  dataset: z.enum(["open", "merged", "closed"]),
+  title: z.string(),
+  url: z.string().url(),
+  /** Timestamp the issue is anchored to (created, merged or closed). */
+  at: z.string().datetime({ offset: true }),
+  /** Row field a duration finding concerns, e.g. `daysToMerge`. */
+  field: z.string().optional(),
+  detail: z.string(),
+});
+
+const dataQualitySummarySchema = z.object({
+  checkedAt: z.string().datetime({ offset: true }),
+  ghostMerges: z.number().int().nonnegative(),
+  unlabeled: z.number().int().nonnegative(),
+  duplicates: z.number().int().nonnegative(),
+  implausibleDurations: z.number().int().nonnegative(),
+  truncatedSearchRanges: z.array(z.string()),
+});
+
 export const queueSummarySchema = z.object({
   checkedAt: z.string().datetime({ offset: true }),
   page1ETag: z.string().nullable(),
   latestMergedAt: z.string().datetime({ offset: true }).nullable(),
+  latestClosedAt: z.string().datetime({ offset: true }).nullable(),
+  mergedReconciledAt: z.string().datetime({ offset: true }).nullable(),
+  queue: queueConfigSchema,
   totals: z.object({
     readyTotal: z.number().int().nonnegative(),
-    readyPlugins: z.number().int().nonnegative(),
-    readyThemes: z.number().int().nonnegative(),
-  }),
-  waitEstimates: z.object({
-    plugin: waitEstimateSchema,
-    theme: waitEstimateSchema,
+    byType: z.record(z.string(), z.number().int().nonnegative()),
+    /** Open submissions of every type, whatever their review state. */
+    submissionsTotal: z.number().int().nonnegative().optional(),
+    /** Open submissions per state label; `none` counts PRs without one. */
+    byState: z.record(z.string(), z.number().int().nonnegative()).optional(),
   }),
+  waitEstimates: z.record(z.string(), waitEstimateSchema),
   weeklyMerged: z.object({
     weekStarts: z.array(z.string().datetime({ offset: true })),
-    pluginCounts: z.array(z.number().int().nonnegative()),
-    themeCounts: z.array(z.number().int().nonnegative()),
+    counts: z.record(z.string(), z.array(z.number().int().nonnegative())),
+    /** PRs that first reached the ready label in each week, per type. */
+    inflow: z
+      .record(z.string(), z.array(z.number().int().nonnegative()))
+      .optional(),
+    /** Inflow minus merges per week; positive weeks grew the queue. */
+    netChange: z.record(z.string(), z.array(z.number().int())).optional(),
   }),
+  closureRates: z.record(z.string(), closureRateSchema),
+  /** Per type; `null` when no merges were recorded to resample. */
+  forecasts: z.record(z.string(), mergeForecastSchema.nullable()).optional(),
+  rateLimit: rateLimitStateSchema.optional(),
+  dataQuality: dataQualitySummarySchema.optional(),
   datasets: z.object({
     openQueue: datasetPointerSchema.nullable(),
     mergedHistory: datasetPointerSchema.nullable(),
+    closedHistory: datasetPointerSchema.nullable(),
+    dataQuality: datasetPointerSchema.nullable().optional(),
+    openSubmissions: datasetPointerSchema.nullable().optional(),
+    queueHistory: datasetPointerSchema.nullable().optional(),
   }),
 });
 
 export const openQueueDatasetSchema = z.array(pullRequestSchema);
 export const mergedQueueDatasetSchema = z.array(mergedPullRequestSchema);
+export const closedQueueDatasetSchema = z.array(closedPullRequestSchema);
+export const dataQualityDatasetSchema = z.array(dataQualityIssueSchema);
+export const openSubmissionsDatasetSchema = z.array(openSubmissionSchema);
+export const queueHistoryDatasetSchema = z.array(queueHistoryEntrySchema);
 
 export type PullRequest = z.infer<typeof pullRequestSchema>;
 export type MergedPullRequest = z.infer<typeof mergedPullRequestSchema>;
+export type ClosedPullRequest = z.infer<typeof closedPullRequestSchema>;
+export type OpenSubmission = z.infer<typeof openSubmissionSchema>;
+export type QueueHistoryEntry = z.infer<typeof queueHistoryEntrySchema>;
+export type ClosureRate = z.infer<typeof closureRateSchema>;
 export type DatasetPointer = z.infer<typeof datasetPointerSchema>;
 export type QueueSummary = z.infer<typeof queueSummarySchema>;
 export type WaitEstimate = z.infer<typeof waitEstimateSchema>;
+export type WaitEstimateValue = z.infer<typeof waitEstimateValueSchema>;
+export type QueueConfig = z.infer<typeof queueConfigSchema>;
+export type QueueTypeConfig = z.infer<typeof queueTypeConfigSchema>;
+export type MergeProjection = z.infer<typeof mergeProjectionSchema>;
+export type MergeForecast = z.infer<typeof mergeForecastSchema>;
+export type SubmissionAttempt = z.infer<typeof submissionAttemptSchema>;
+export type SubmissionManifest = z.infer<typeof submissionManifestSchema>;
+export type RateLimitQuota = z.infer<typeof rateLimitQuotaSchema>;
+export type RateLimitState = z.infer<typeof rateLimitStateSchema>;
+export type DataQualityIssue = z.infer<typeof dataQualityIssueSchema>;
+export type DataQualitySummary = z.infer<typeof dataQualitySummarySchema>;
@@ -0,0 +1,20 @@
+const SUBMISSION_TITLE_PREFIX = /^add (?:plugin|theme):\s*/i;
+
+/**
+ * Strip the `Add plugin: ` / `Add theme: ` prefix from a submission PR title.
+ */
+export function cleanTitle(title: string): string {
+  return title.replace(SUBMISSION_TITLE_PREFIX, "");
+}
+
+/**
+ * Reduce a submission title to a comparison key: the cleaned title lowercased
+ * with punctuation and repeated whitespace collapsed, so `Add plugin: My-Tool`
+ * and `Add Plugin: my tool` compare equal.
+ */
+export function normalizeSubmissionTitle(title: string): string {
+  return cleanTitle(title)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
@@ -3,16 +3,20 @@ import { useQuery } from "@tanstack/react-query";
 import {
   openQueueDatasetSchema,
   mergedQueueDatasetSchema,
+  queueHistoryDatasetSchema,
   type DatasetPointerSummary,
   type MergedPullRequest,
   type PullRequest,
+  type QueueHistoryEntry,
   type QueueSummary,
   type SubmissionFilter,
   type WaitEstimate,
-  isSubmissionFilter,
+  resolveSubmissionFilter,
 } from "./types";
 import KpiCard from "./components/KpiCard.tsx";
 import TimelineChart from "./components/TimelineChart.tsx";
+import QueueHistoryChart from "./components/QueueHistoryChart.tsx";
+import MergeForecastChart from "./components/MergeForecastChart.tsx";
 import PullRequestTable from "./components/PullRequestTable.tsx";
 import ThemeToggle from "./components/ThemeToggle.tsx";
 import { useTheme } from "./hooks/useTheme.ts";
@@ -30,6 +34,15 @@ const isTableVariant = (value: string): value is TableVariant => {
   return value === "queue" || value === "merged";
 };
 
+const INFLOW_COLOR = "rgb(245, 158, 11)";
+const NET_CHANGE_COLOR = "rgb(100, 116, 139)";
+
+const WAIT_METHOD_DESCRIPTIONS: Partial<Record<string, string>> = {
+  throughput: "Current queue at recent weekly merge rate",
+  historical: "Waits of recent merges",
+  survival: "Recent waits, including PRs still in the queue",
+};
+
 const assertPointer = (
   pointer: DatasetPointerSummary | null,
 ): DatasetPointerSummary => {
@@ -44,23 +57,14 @@ function App() {
   const [chartFilter, setChartFilter] = usePersistentState<SubmissionFilter>(
     "chartFilterType",
     "all",
-    {
-      validate: isSubmissionFilter,
-    },
   );
   const [queueFilter, setQueueFilter] = usePersistentState<SubmissionFilter>(
     "queueTableFilterType",
     "all",
-    {
-      validate: isSubmissionFilter,
-    },
   );
   const [mergedFilter, setMergedFilter] = usePersistentState<SubmissionFilter>(
     "mergedTableFilterType",
     "all",
-    {
-      validate: isSubmissionFilter,
-    },
   );
   const [activeTable, setActiveTable] = usePersistentState<TableVariant>(
     "activeTableVariant",
@@ -83,6 +87,7 @@ function App() {
 
   const openPointer = summary?.datasets?.openQueue ?? null;
   const mergedPointer = summary?.datasets?.mergedHistory ?? null;
+  const historyPointer = summary?.datasets?.queueHistory ?? null;
 
   const {
     data: openPrData,
@@ -112,6 +117,17 @@ function App() {
     refetchOnWindowFocus: false,
   });
 
+  // The history chart is optional; a failed load simply hides it.
+  const { data: queueHistory } = useQuery<QueueHistoryEntry[]>({
+    queryKey: ["queue-history", historyPointer?.version],
+    queryFn: () =>
+      fetchDataset(assertPointer(historyPointer), queueHistoryDatasetSchema),
+    enabled: Boolean(historyPointer),
+    staleTime: Infinity,
+    gcTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
   const openPrs = useMemo(() => openPrData ?? [], [openPrData]);
   const mergedPrs = useMemo(() => mergedPrData ?? [], [mergedPrData]);
 
@@ -149,18 +165,7 @@ function App() {
     if (!estimate) {
       return "–";
     }
-    return estimate.estimatedDays ?? "∞";
-  };
-
-  const formatWaitRange = (estimate?: WaitEstimate) => {
-    if (!estimate) {
-      return "";
-    }
-    const { lower, upper } = estimate.range;
-    if (lower === null || upper === null) {
-      return "";
-    }
-    return `(${lower}–${upper} days)`;
+    return estimate.p50 ?? "∞";
   };
 
   const chartData = useMemo(() => {
@@ -176,30 +181,71 @@ function App() {
     );
 
     const datasets: Array<{
+      type: "bar" | "line";
       label: string;
       data: number[];
       backgroundColor: string;
       borderColor: string;
       borderWidth: number;
+      stack?: string;
+      borderDash?: number[];
+      pointRadius?: number;
     }> = [];
 
-    if (chartFilter === "all" || chartFilter === "plugin") {
+    const activeFilter = resolveSubmissionFilter(
+      chartFilter,
+      summary.queue.types,
+    );
+    const visibleTypes = summary.queue.types.filter(
+      (type) => activeFilter === "all" || activeFilter === type.id,
+    );
+
+    for (const type of visibleTypes) {
       datasets.push({
-        label: "Plugins Merged",
-        data: summary.weeklyMerged.pluginCounts,
-        backgroundColor: "rgb(2, 132, 199)",
-        borderColor: "rgb(2, 132, 199)",
+        type: "bar",
+        label: `${type.pluralName} Merged`,
+        data: summary.weeklyMerged.counts[type.id] ?? [],
+        backgroundColor: type.color,
+        borderColor: type.color,
         borderWidth: 1,
       });
     }
 
-    if (chartFilter === "all" || chartFilter === "theme") {
+    // Summed over the visible types; older summaries carry no inflow.
+    const sumSeries = (series: Record<string, number[]> | undefined) =>
+      series
+        ? summary.weeklyMerged.weekStarts.map((_, index) =>
+            visibleTypes.reduce(
+              (sum, type) => sum + (series[type.id]?.[index] ?? 0),
+              0,
+            ),
+          )
+        : null;
+    const inflow = sumSeries(summary.weeklyMerged.inflow);
+    const netChange = sumSeries(summary.weeklyMerged.netChange);
+    if (inflow) {
       datasets.push({
-        label: "Themes Merged",
-        data: summary.weeklyMerged.themeCounts,
-        backgroundColor: "rgb(219, 39, 119)",
-        borderColor: "rgb(219, 39, 119)",
-        borderWidth: 1,
+        type: "line",
+        label: "Reached Queue",
+        data: inflow,
+        backgroundColor: INFLOW_COLOR,
+        borderColor: INFLOW_COLOR,
+        borderWidth: 2,
+        stack: "inflow",
+        pointRadius: 3,
+      });
+    }
+    if (netChange) {
+      datasets.push({
+        type: "line",
+        label: "Net Change",
+        data: netChange,
+        backgroundColor: NET_CHANGE_COLOR,
+        borderColor: NET_CHANGE_COLOR,
+        borderWidth: 2,
+        stack: "net-change",
+        borderDash: [6, 4],
+        pointRadius: 0,
       });
     }
 
@@ -224,9 +270,49 @@ function App() {
   const checkedAbsolute = formatAbsoluteDate(summary?.checkedAt);
   const changedAbsolute = formatAbsoluteDate(latestDatasetUpdate);
 
+  const dataQuality = summary?.dataQuality;
+  const dataQualityIssues = dataQuality
+    ? dataQuality.ghostMerges +
+      dataQuality.unlabeled +
+      dataQuality.duplicates +
+      dataQuality.implausibleDurations +
+      dataQuality.truncatedSearchRanges.length
+    : null;
+  const dataQualityDetails = dataQuality
+    ? [
+        `Ghost merges: ${dataQuality.ghostMerges}`,
+        `Unlabeled PRs: ${dataQuality.unlabeled}`,
+        `Duplicates: ${dataQuality.duplicates}`,
+        `Implausible durations: ${dataQuality.implausibleDurations}`,
+        `Truncated searches: ${dataQuality.truncatedSearchRanges.length}`,
+      ].join("\n")
+    : "";
+
+  const queueTypes = summary?.queue.types ?? [];
+  const readyLabel = summary?.queue.readyLabel ?? "Ready for review";
+  const byState = summary?.totals.byState;
+  const pipelineDescription = byState
+    ? Object.entries(byState)
+        .filter(([state, count]) => state !== readyLabel && count > 0)
+        .map(
+          ([state, count]) =>
+            `${count} ${state === "none" ? "without a state label" : `"${state}"`}`,
+        )
+        .join(", ")
+    : "";
+  const largestQueueTypeId = queueTypes.reduce<string | null>(
+    (largest, type) => {
+      const size = summary?.totals.byType[type.id] ?? 0;
+      const largestSize =
+        largest === null ? -1 : (summary?.totals.byType[largest] ?? 0);
+      return size > largestSize ? type.id : largest;
+    },
+    null,
+  );
+
   const tableTabs: Array<{ id: TableVariant; label: string }> = [
     { id: "merged", label: "Merged (7d)" },
-    { id: "queue", label: "Ready for Review (full)" },
+    { id: "queue", label: `${readyLabel} (full)` },
   ];
   const tabButtonBase =
     "relative inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold transition-[background-color,color,box-shadow] duration-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[color:var(--accent)]";
@@ -253,9 +339,6 @@ function App() {
     );
   }
 
-  const pluginEstimate = summary?.waitEstimates.plugin;
-  const themeEstimate = summary?.waitEstimates.theme;
-
   return (
     <div className="min-h-screen bg-[color:var(--background)] text-[color:var(--foreground)] transition-[background-color,color] duration-300">
       <div className="mx-auto flex min-h-screen max-w-6xl flex-col px-4 py-10 md:px-8 lg:px-12">
@@ -270,7 +353,9 @@ function App() {
                   Obsidian Release PR Queue
                 </h1>
                 <p className="mt-3 text-base text-[color:var(--muted)]">
-                  Dashboard for community plugin &amp; theme submissions.
+                  {summary
+                    ? `Dashboard for ${summary.queue.owner}/${summary.queue.repo} submissions.`
+                    : "Dashboard for community plugin & theme submissions."}
                 </p>
               </div>
               <ThemeToggle theme={theme} toggleTheme={toggleTheme} />
@@ -280,55 +365,91 @@ function App() {
           <main className="flex flex-col gap-12">
             <section
               id="key-metrics"
-              className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-5"
+              className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-[repeat(auto-fit,minmax(10rem,1fr))]"
             >
-              <KpiCard
-                title="Plugin Wait"
-                value={formatWaitValue(pluginEstimate)}
-                range={formatWaitRange(pluginEstimate)}
-                color="text-plugin-accent"
-                warning={
-                  pluginEstimate?.isHighVariance
-                    ? "Estimates may be less reliable due to high variance."
-                    : ""
-                }
-                note="This is an estimate for new submissions and may be high due to the large queue size."
-                description="Based on recent review velocity"
-              />
-              <KpiCard
-                title="Theme Wait"
-                value={formatWaitValue(themeEstimate)}
-                range={formatWaitRange(themeEstimate)}
-                color="text-theme-accent"
-                warning={
-                  themeEstimate?.isHighVariance
-                    ? "Estimates may be less reliable due to high variance."
-                    : ""
-                }
-                description="Based on recent review velocity"
-              />
+              {queueTypes.map((type) => {
+                const estimate = summary?.waitEstimates[type.id];
+                return (
+                  <KpiCard
+                    key={`wait-${type.id}`}
+                    title={`${type.displayName} Wait`}
+                    value={formatWaitValue(estimate)}
+                    {...(estimate
+                      ? {
+                          percentiles: [
+                            { share: 50, days: estimate.p50 },
+                            { share: 80, days: estimate.p80 },
+                          ],
+                        }
+                      : {})}
+                    accent={type.accent ?? type.color}
+                    warning={
+                      estimate?.isHighVariance
+                        ? "Estimates may be less reliable due to high variance."
+                        : ""
+                    }
+                    {...(type.id === largestQueueTypeId
+                      ? {
+                          note: "This is an estimate for new submissions and may be high due to the large queue size.",
+                        }
+                      : {})}
+                    description={
+                      WAIT_METHOD_DESCRIPTIONS[estimate?.method ?? ""] ??
+                      "Estimated from recent merges"
+                    }
+                  />
+                );
+              })}
               <KpiCard
                 title="Total Queue"
                 value={summary?.totals.readyTotal ?? "–"}
-                description='PRs "Ready for review"'
-              />
-              <KpiCard
-                title="Plugin Queue"
-                value={summary?.totals.readyPlugins ?? "–"}
-                description='"plugin" &amp; "Ready for review"'
-              />
-              <KpiCard
-                title="Theme Queue"
-                value={summary?.totals.readyThemes ?? "–"}
-                description='"theme" & "Ready for review"'
+                description={`PRs "${readyLabel}"`}
               />
+              {queueTypes.map((type) => (
+                <KpiCard
+                  key={`queue-${type.id}`}
+                  title={`${type.displayName} Queue`}
+                  value={summary?.totals.byType[type.id] ?? "–"}
+                  description={`"${type.label}" & "${readyLabel}"`}
+                />
+              ))}
+              {summary?.totals.submissionsTotal !== undefined && (
+                <KpiCard
+                  title="All Open Submissions"
+                  value={summary.totals.submissionsTotal}
+                  description={
+                    pipelineDescription
+                      ? `Not yet ready: ${pipelineDescription}`
+                      : "Every open submission is ready for review"
+                  }
+                />
+              )}
             </section>
 
             {chartData !== undefined && (
               <TimelineChart
                 chartData={chartData}
-                chartFilter={chartFilter}
+                chartFilter={resolveSubmissionFilter(chartFilter, queueTypes)}
                 setChartFilter={setChartFilter}
+                queueTypes={queueTypes}
+                theme={theme}
+              />
+            )}
+
+            {summary?.forecasts && (
+              <MergeForecastChart
+                forecasts={summary.forecasts}
+                queueTypes={queueTypes}
+                checkedAt={summary.checkedAt}
+                theme={theme}
+              />
+            )}
+
+            {queueHistory && (
+              <QueueHistoryChart
+                history={queueHistory}
+                queueTypes={queueTypes}
+                readyLabel={readyLabel}
                 theme={theme}
               />
             )}
@@ -370,7 +491,9 @@ function App() {
                   key="queue-table"
                   variant="queue"
                   prs={openPrs}
-                  filterType={queueFilter}
+                  queueTypes={queueTypes}
+                  readyLabel={readyLabel}
+                  filterType={resolveSubmissionFilter(queueFilter, queueTypes)}
                   setFilterType={setQueueFilter}
                 />
               ) : (
@@ -378,7 +501,9 @@ function App() {
                   key="merged-table"
                   variant="merged"
                   prs={recentMergedPrs}
-                  filterType={mergedFilter}
+                  queueTypes={queueTypes}
+                  readyLabel={readyLabel}
+                  filterType={resolveSubmissionFilter(mergedFilter, queueTypes)}
                   setFilterType={setMergedFilter}
                 />
               )}
@@ -392,6 +517,27 @@ function App() {
               <span className="mx-2">·</span>
               <span className="font-semibold">Last change:</span>{" "}
               <span title={changedAbsolute}>{changedRelative}</span>
+              {dataQualityIssues !== null && (
+                <>
+                  <span className="mx-2">·</span>
+                  <span className="font-semibold">Data health:</span>{" "}
+                  <a
+                    href="/api/data-quality"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={dataQualityDetails}
+                    className={
+                      dataQualityIssues === 0
+                        ? "text-[color:var(--foreground)]"
+                        : "warning-text"
+                    }
+                  >
+                    {dataQualityIssues === 0
+                      ? "OK"
+                      : `${dataQualityIssues} issue${dataQualityIssues === 1 ? "" : "s"}`}
+                  </a>
+                </>
+              )}
             </p>
             <p>
               All calculations are estimates. Not affiliated with Obsidian MD.
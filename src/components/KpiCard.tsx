@@ -1,22 +1,38 @@
 import React from "react";
 
+/** Share of submissions (in percent) expected within `days`; `null` is unbounded. */
+interface WaitPercentile {
+  share: number;
+  days: number | null;
+}
+
 interface KpiCardProps {
   title: string;
   value: string | number;
   subtitle?: string;
-  range?: string;
+  percentiles?: WaitPercentile[];
   color?: string;
+  accent?: string;
   description?: string;
   warning?: string;
   note?: string;
 }
 
+const formatPercentiles = (percentiles?: WaitPercentile[]) =>
+  (percentiles ?? [])
+    .map(
+      ({ share, days }) =>
+        `${share}% within ${days === null ? "∞" : days} ${days === 1 ? "day" : "days"}`,
+    )
+    .join(", ");
+
 const KpiCard: React.FC<KpiCardProps> = ({
   title,
   value,
   subtitle,
-  range,
+  percentiles,
   color = "text-[color:var(--foreground)]",
+  accent,
   description,
   warning,
   note,
@@ -26,7 +42,10 @@ const KpiCard: React.FC<KpiCardProps> = ({
       <h2 className="text-sm font-semibold uppercase tracking-wide text-[color:var(--muted)]">
         {title}
       </h2>
-      <p className={`text-5xl font-bold ${color}`}>
+      <p
+        className={`text-5xl font-bold ${color}`}
+        style={accent ? { color: accent } : undefined}
+      >
         {value}
         {subtitle && (
           <span className="ml-1 text-2xl font-semibold text-[color:var(--muted)]">
@@ -34,7 +53,9 @@ const KpiCard: React.FC<KpiCardProps> = ({
           </span>
         )}
       </p>
-      <p className="h-[1rem] text-sm text-[color:var(--muted)]">{range}</p>
+      <p className="min-h-[1rem] text-sm text-[color:var(--muted)]">
+        {formatPercentiles(percentiles)}
+      </p>
       {warning && <p className="warning-text text-xs font-medium">{warning}</p>}
       {note && <p className="text-xs text-[color:var(--muted)]">{note}</p>}
       {description && (
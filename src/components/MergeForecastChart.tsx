@@ -0,0 +1,156 @@
+import React, { useMemo } from "react";
+import type { ChartData, ChartOptions } from "chart.js";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import type { Theme } from "../hooks/useTheme.ts";
+import type { MergeForecast, QueueTypeConfig } from "../types.ts";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+);
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface MergeForecastChartProps {
+  forecasts: Record<string, MergeForecast | null>;
+  queueTypes: QueueTypeConfig[];
+  /** When the forecasts were computed; week 1 ends a week later. */
+  checkedAt: string;
+  theme: Theme;
+}
+
+const MergeForecastChart: React.FC<MergeForecastChartProps> = ({
+  forecasts,
+  queueTypes,
+  checkedAt,
+  theme,
+}) => {
+  const forecastTypes = useMemo(
+    () => queueTypes.filter((type) => forecasts[type.id]),
+    [queueTypes, forecasts],
+  );
+  const runs = forecasts[forecastTypes[0]?.id ?? ""]?.runs ?? 0;
+
+  const chartData = useMemo<ChartData<"line", number[]>>(() => {
+    const weeks = Math.max(
+      0,
+      ...forecastTypes.map(
+        (type) => forecasts[type.id]?.cumulative.length ?? 0,
+      ),
+    );
+    const start = new Date(checkedAt).getTime();
+    return {
+      labels: Array.from({ length: weeks }, (_, index) =>
+        new Date(start + (index + 1) * WEEK_MS).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+        }),
+      ),
+      datasets: forecastTypes.map((type) => {
+        const cumulative = forecasts[type.id]?.cumulative ?? [];
+        const last = cumulative[cumulative.length - 1] ?? 0;
+        // Curves stop once every run finished; hold the final value.
+        return {
+          label: `New ${type.displayName}`,
+          data: Array.from(
+            { length: weeks },
+            (_, index) => (cumulative[index] ?? last) * 100,
+          ),
+          borderColor: type.color,
+          backgroundColor: type.color,
+          borderWidth: 2,
+          pointRadius: 0,
+          stepped: "after" as const,
+        };
+      }),
+    };
+  }, [forecasts, forecastTypes, checkedAt]);
+
+  const chartOptions = useMemo<ChartOptions<"line">>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      resizeDelay: 250,
+      animation: false,
+      interaction: {
+        mode: "index",
+        intersect: false,
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: {
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+            maxTicksLimit: 12,
+          },
+        },
+        y: {
+          min: 0,
+          max: 100,
+          ticks: {
+            callback: (value) => `${value}%`,
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+          },
+          grid: {
+            color: theme === "dark" ? "#334155" : "#e2e8f0",
+          },
+        },
+      },
+      plugins: {
+        legend: {
+          position: "top" as const,
+          labels: {
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+          },
+        },
+        tooltip: {
+          mode: "index",
+          intersect: false,
+          callbacks: {
+            title: (items) => `Merged by ${items[0]?.label ?? ""}`,
+            label: (item) =>
+              `${item.dataset.label ?? ""}: ${Math.round(item.parsed.y ?? 0)}%`,
+          },
+        },
+      },
+    }),
+    [theme],
+  );
+
+  if (forecastTypes.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface-muted)] p-6 shadow-[var(--shadow-soft)] transition-[background-color,border-color,box-shadow] duration-300 sm:p-8">
+      <div className="space-y-2 text-center md:text-left">
+        <h2 className="text-2xl font-semibold text-[color:var(--foreground)]">
+          Merge Date Forecast
+        </h2>
+        <p className="text-sm text-[color:var(--muted)]">
+          Chance that a submission made today is merged by each date, from{" "}
+          {runs.toLocaleString("en-US")} simulations of the current queue
+          draining at recent weekly merge rates.
+        </p>
+      </div>
+      <div className="relative mx-auto mt-8 h-[360px] max-h-[50vh] w-full max-w-[900px]">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+    </section>
+  );
+};
+
+export default MergeForecastChart;
@@ -4,38 +4,44 @@ import type { VirtualItem } from "@tanstack/react-virtual";
 import type {
   MergedPullRequest,
   PullRequest,
+  QueueTypeConfig,
   SubmissionFilter,
 } from "../types.ts";
 import { usePersistentState } from "../hooks/usePersistentState.ts";
 import { useRelativeTime } from "../hooks/useRelativeTime.ts";
-
-type SortColumn = "id" | "type" | "title" | "date" | "days";
+import { cleanTitle } from "../../shared/submissionTitle.ts";
+
+type SortColumn =
+  | "id"
+  | "type"
+  | "title"
+  | "date"
+  | "days"
+  | "position"
+  | "eta"
+  | "author"
+  | "mergedBy"
+  | "size";
 type SortDirection = "asc" | "desc";
 
 type PullRequestTableProps =
   | {
       variant: "queue";
       prs: PullRequest[];
+      queueTypes: QueueTypeConfig[];
+      readyLabel: string;
       filterType: SubmissionFilter;
       setFilterType: (filter: SubmissionFilter) => void;
     }
   | {
       variant: "merged";
       prs: MergedPullRequest[];
+      queueTypes: QueueTypeConfig[];
+      readyLabel: string;
       filterType: SubmissionFilter;
       setFilterType: (filter: SubmissionFilter) => void;
     };
 
-const cleanTitle = (title: string) => {
-  if (title.startsWith("Add plugin: ")) {
-    return title.replace("Add plugin: ", "");
-  }
-  if (title.startsWith("Add theme: ")) {
-    return title.replace("Add theme: ", "");
-  }
-  return title;
-};
-
 const formatRelativeToken = (dateString: string) => {
   const date = new Date(dateString);
   if (Number.isNaN(date.getTime())) {
@@ -62,6 +68,57 @@ const formatRelativeToken = (dateString: string) => {
   return `${Math.max(seconds, 0)}s`;
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysUntil = (dateString: string | null | undefined) => {
+  if (!dateString) {
+    return null;
+  }
+  const time = new Date(dateString).getTime();
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  return Math.max(0, Math.ceil((time - Date.now()) / DAY_MS));
+};
+
+const formatProjection = (pr: PullRequest) => {
+  const estimated = daysUntil(pr.projectedMerge?.estimatedAt);
+  if (estimated === null) {
+    return { label: "–", range: "" };
+  }
+  const earliest = daysUntil(pr.projectedMerge?.earliestAt);
+  const latest = daysUntil(pr.projectedMerge?.latestAt);
+  const range =
+    earliest !== null && latest !== null
+      ? `${earliest}–${latest} days`
+      : earliest !== null
+        ? `≥ ${earliest} days`
+        : "";
+  return { label: `~${estimated} days`, range };
+};
+
+const projectionSortValue = (pr: PullRequest) => {
+  const estimatedAt = pr.projectedMerge?.estimatedAt;
+  return estimatedAt ? new Date(estimatedAt).getTime() : Infinity;
+};
+
+const diffSize = (pr: MergedPullRequest) =>
+  (pr.additions ?? 0) + (pr.deletions ?? 0);
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const badgeStyle = (typeConfig: QueueTypeConfig | undefined) => {
+  if (!typeConfig) {
+    return undefined;
+  }
+  const accent = typeConfig.accent ?? typeConfig.color;
+  return {
+    color: accent,
+    backgroundColor: `color-mix(in srgb, ${accent} 15%, transparent)`,
+  };
+};
+
 const buttonBase =
   "inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold transition-[background-color,border-color,color,box-shadow] duration-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[color:var(--accent)]";
 const inactiveButtonClasses =
@@ -70,7 +127,7 @@ const activeButtonClasses =
   "border border-transparent bg-[color:var(--accent-button-bg)] text-[color:var(--accent-button-text)] shadow-[var(--shadow-accent)]";
 
 const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
-  const { filterType, setFilterType, variant } = props;
+  const { filterType, setFilterType, variant, queueTypes, readyLabel } = props;
   const prs = props.prs;
   const isMergedView = variant === "merged";
   const filterStorageKey = isMergedView
@@ -86,6 +143,14 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
     filterStorageKey,
     "",
   );
+  const [showMergedDetails, setShowMergedDetails] = usePersistentState<boolean>(
+    "mergedTableShowDetails",
+    false,
+    {
+      validate: isBoolean,
+    },
+  );
+  const showDetails = isMergedView && showMergedDetails;
 
   const handleFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setFilterQuery(event.target.value);
@@ -146,7 +211,26 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
       }
 
       const normalizedTitle = cleanTitle(pr.title).toLowerCase();
-      return normalizedTitle.includes(normalizedQuery);
+      if (normalizedTitle.includes(normalizedQuery)) {
+        return true;
+      }
+      const manifestFields = [
+        pr.manifest?.id,
+        pr.manifest?.name,
+        pr.manifest?.author,
+      ];
+      if (
+        manifestFields.some((field) =>
+          field?.toLowerCase().includes(normalizedQuery),
+        )
+      ) {
+        return true;
+      }
+      if (variant === "merged") {
+        const author = (pr as MergedPullRequest).author ?? "";
+        return author.toLowerCase().includes(normalizedQuery);
+      }
+      return false;
     });
 
     const sortablePrs = [...filteredPrs];
@@ -173,6 +257,25 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
         compareValue =
           (a as MergedPullRequest).daysToMerge -
           (b as MergedPullRequest).daysToMerge;
+      } else if (sortColumn === "position" && variant === "queue") {
+        compareValue =
+          ((a as PullRequest).queuePosition ?? Infinity) -
+          ((b as PullRequest).queuePosition ?? Infinity);
+      } else if (sortColumn === "eta" && variant === "queue") {
+        const aValue = projectionSortValue(a);
+        const bValue = projectionSortValue(b);
+        compareValue = aValue === bValue ? 0 : aValue < bValue ? -1 : 1;
+      } else if (sortColumn === "author" && variant === "merged") {
+        compareValue = ((a as MergedPullRequest).author ?? "").localeCompare(
+          (b as MergedPullRequest).author ?? "",
+        );
+      } else if (sortColumn === "mergedBy" && variant === "merged") {
+        compareValue = ((a as MergedPullRequest).mergedBy ?? "").localeCompare(
+          (b as MergedPullRequest).mergedBy ?? "",
+        );
+      } else if (sortColumn === "size" && variant === "merged") {
+        compareValue =
+          diffSize(a as MergedPullRequest) - diffSize(b as MergedPullRequest);
       }
       return sortDirection === "asc" ? compareValue : -compareValue;
     });
@@ -215,14 +318,16 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
     : "Current Pull Request Queue";
   const subheading = isMergedView
     ? "Merged in the last 7 days"
-    : '"Ready for review"';
+    : `"${readyLabel}"`;
   const emptyMessage = isMergedView
     ? "No pull requests were merged in the last 7 days."
     : "The queue is empty!";
   const dateColumnLabel = isMergedView ? "Merged" : "Submitted";
-  const gridTemplateColumns = isMergedView
-    ? "minmax(90px,120px) minmax(90px,120px) minmax(220px,1fr) minmax(120px,140px) minmax(60px,100px)"
-    : "minmax(90px,120px) minmax(90px,120px) minmax(220px,1fr) minmax(120px,140px)";
+  const gridTemplateColumns = showDetails
+    ? "minmax(90px,120px) minmax(90px,120px) minmax(220px,1fr) minmax(120px,140px) minmax(60px,100px) minmax(110px,150px) minmax(110px,150px) minmax(110px,140px)"
+    : isMergedView
+      ? "minmax(90px,120px) minmax(90px,120px) minmax(220px,1fr) minmax(120px,140px) minmax(60px,100px)"
+      : "minmax(90px,120px) minmax(90px,120px) minmax(220px,1fr) minmax(120px,140px) minmax(100px,130px) minmax(120px,150px)";
   const headerCells: Array<{ key: SortColumn; label: string }> = [
     { key: "id", label: "PR #" },
     { key: "type", label: "Type" },
@@ -231,6 +336,14 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
   ];
   if (isMergedView) {
     headerCells.push({ key: "days", label: "Days" });
+    if (showDetails) {
+      headerCells.push({ key: "author", label: "Author" });
+      headerCells.push({ key: "mergedBy", label: "Merged by" });
+      headerCells.push({ key: "size", label: "Size" });
+    }
+  } else {
+    headerCells.push({ key: "position", label: "Position" });
+    headerCells.push({ key: "eta", label: "ETA" });
   }
 
   return (
@@ -246,8 +359,19 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
         </h2>
         <div className="flex flex-wrap gap-2" role="group">
           {renderButton("All", "all")}
-          {renderButton("Plugins", "plugin")}
-          {renderButton("Themes", "theme")}
+          {queueTypes.map((type) => renderButton(type.pluralName, type.id))}
+          {isMergedView ? (
+            <button
+              type="button"
+              onClick={() => setShowMergedDetails(!showMergedDetails)}
+              className={`${buttonBase} ${
+                showMergedDetails ? activeButtonClasses : inactiveButtonClasses
+              }`}
+              aria-pressed={showMergedDetails}
+            >
+              Details
+            </button>
+          ) : null}
         </div>
       </div>
       <div className="mt-4 flex justify-center">
@@ -258,7 +382,7 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
             value={filterQuery}
             onChange={handleFilterChange}
             onKeyDown={handleFilterKeyDown}
-            placeholder="Search by PR #, title, or time (e.g. 2d)"
+            placeholder="Search by PR #, title, plugin id, author, or time (e.g. 2d)"
             className={`w-full rounded-full bg-[color:var(--surface)] px-4 py-2 pr-12 text-sm text-[color:var(--foreground)] placeholder:text-[color:var(--muted)] transition-[border-color,box-shadow] focus:border-[color:var(--accent)] focus:outline-none focus:ring-2 focus:ring-sky-200 dark:focus:ring-sky-500/40 ${
               isFiltered
                 ? "border-2 border-[color:var(--accent)] shadow-[0_0_0_1px_rgba(56,189,248,0.25)] dark:shadow-[0_0_0_1px_rgba(56,189,248,0.3)]"
@@ -340,8 +464,12 @@ const PullRequestTable: React.FC<PullRequestTableProps> = (props) => {
                       key={virtualRow.key}
                       virtualRow={virtualRow}
                       pr={pr}
+                      typeConfig={queueTypes.find(
+                        (type) => type.id === pr.type,
+                      )}
                       mergedPr={mergedPr}
                       isMergedView={isMergedView}
+                      showDetails={showDetails}
                       gridTemplateColumns={gridTemplateColumns}
                       measureElement={rowVirtualizer.measureElement}
                     />
@@ -361,8 +489,10 @@ export default PullRequestTable;
 interface VirtualRowProps {
   virtualRow: VirtualItem;
   pr: PullRequest;
+  typeConfig: QueueTypeConfig | undefined;
   mergedPr: MergedPullRequest | null;
   isMergedView: boolean;
+  showDetails: boolean;
   gridTemplateColumns: string;
   measureElement: (el: HTMLElement | null) => void;
 }
@@ -370,8 +500,10 @@ interface VirtualRowProps {
 const VirtualizedRow: React.FC<VirtualRowProps> = ({
   virtualRow,
   pr,
+  typeConfig,
   mergedPr,
   isMergedView,
+  showDetails,
   gridTemplateColumns,
   measureElement,
 }) => {
@@ -379,12 +511,10 @@ const VirtualizedRow: React.FC<VirtualRowProps> = ({
     isMergedView && mergedPr ? mergedPr.mergedAt : pr.createdAt,
   );
 
-  const badgeClasses =
-    pr.type === "plugin"
-      ? "badge-plugin"
-      : pr.type === "theme"
-        ? "badge-theme"
-        : "bg-gray-500/10 text-gray-600 dark:bg-gray-400/20 dark:text-gray-200";
+  const badgeClasses = typeConfig
+    ? ""
+    : "bg-gray-500/10 text-gray-600 dark:bg-gray-400/20 dark:text-gray-200";
+  const projection = isMergedView ? null : formatProjection(pr);
 
   return (
     <div
@@ -418,14 +548,28 @@ const VirtualizedRow: React.FC<VirtualRowProps> = ({
       <div role="cell" className="text-sm">
         <span
           className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${badgeClasses}`}
+          style={badgeStyle(typeConfig)}
         >
-          {pr.type}
+          {typeConfig?.displayName ?? pr.type}
         </span>
       </div>
       <div role="cell" className="text-sm text-[color:var(--muted)]">
-        <span className="block max-w-[320px] truncate">
+        <span
+          className="block max-w-[320px] truncate"
+          title={pr.manifest?.description ?? undefined}
+        >
           {cleanTitle(pr.title)}
         </span>
+        {pr.manifest?.repo ? (
+          <a
+            href={`https://github.com/${pr.manifest.repo}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="link-plugin block max-w-[320px] truncate text-xs"
+          >
+            {pr.manifest.repo}
+          </a>
+        ) : null}
       </div>
       <div role="cell" className="text-sm text-[color:var(--muted)]">
         {relativeTime}
@@ -434,6 +578,53 @@ const VirtualizedRow: React.FC<VirtualRowProps> = ({
         <div role="cell" className="text-sm text-[color:var(--muted)]">
           {mergedPr?.daysToMerge ?? ""}
         </div>
+      ) : (
+        <>
+          <div role="cell" className="text-sm text-[color:var(--muted)]">
+            {pr.queuePosition !== undefined && pr.queueSize !== undefined
+              ? `${pr.queuePosition.toLocaleString()} of ${pr.queueSize.toLocaleString()}`
+              : "–"}
+          </div>
+          <div
+            role="cell"
+            className="text-sm text-[color:var(--muted)]"
+            title={pr.projectedMerge?.estimatedAt ?? undefined}
+          >
+            <span className="block">{projection?.label}</span>
+            {projection?.range ? (
+              <span className="block text-xs">{projection.range}</span>
+            ) : null}
+          </div>
+        </>
+      )}
+      {showDetails && mergedPr ? (
+        <>
+          <div role="cell" className="text-sm text-[color:var(--muted)]">
+            <span className="block truncate">{mergedPr.author ?? "–"}</span>
+          </div>
+          <div role="cell" className="text-sm text-[color:var(--muted)]">
+            <span className="block truncate">{mergedPr.mergedBy ?? "–"}</span>
+          </div>
+          <div role="cell" className="text-sm text-[color:var(--muted)]">
+            {mergedPr.additions !== undefined &&
+            mergedPr.deletions !== undefined ? (
+              <>
+                <span className="block">
+                  +{mergedPr.additions.toLocaleString()} / −
+                  {mergedPr.deletions.toLocaleString()}
+                </span>
+                {mergedPr.changedFiles !== undefined ? (
+                  <span className="block text-xs">
+                    {mergedPr.changedFiles.toLocaleString()}{" "}
+                    {mergedPr.changedFiles === 1 ? "file" : "files"}
+                  </span>
+                ) : null}
+              </>
+            ) : (
+              "–"
+            )}
+          </div>
+        </>
       ) : null}
     </div>
   );
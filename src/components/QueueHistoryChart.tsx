@@ -0,0 +1,144 @@
+import React, { useMemo } from "react";
+import type { ChartData, ChartOptions } from "chart.js";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import type { Theme } from "../hooks/useTheme.ts";
+import type { QueueHistoryEntry, QueueTypeConfig } from "../types.ts";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+);
+
+interface QueueHistoryChartProps {
+  history: QueueHistoryEntry[];
+  queueTypes: QueueTypeConfig[];
+  readyLabel: string;
+  theme: Theme;
+}
+
+const NOT_READY_COLOR = "rgb(148, 163, 184)";
+
+const QueueHistoryChart: React.FC<QueueHistoryChartProps> = ({
+  history,
+  queueTypes,
+  readyLabel,
+  theme,
+}) => {
+  const chartData = useMemo<ChartData<"line", (number | null)[]>>(() => {
+    const hasNotReady = history.some((row) => row.notReadyTotal !== undefined);
+    return {
+      labels: history.map((row) =>
+        new Date(`${row.date}T00:00:00Z`).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          timeZone: "UTC",
+        }),
+      ),
+      datasets: [
+        ...queueTypes.map((type) => ({
+          label: `${type.pluralName} "${readyLabel}"`,
+          data: history.map((row) => row.byType[type.id] ?? 0),
+          borderColor: type.color,
+          backgroundColor: type.color,
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0.2,
+        })),
+        ...(hasNotReady
+          ? [
+              {
+                label: "Not yet ready",
+                data: history.map((row) => row.notReadyTotal ?? null),
+                borderColor: NOT_READY_COLOR,
+                backgroundColor: NOT_READY_COLOR,
+                borderWidth: 2,
+                borderDash: [6, 4],
+                pointRadius: 0,
+                tension: 0.2,
+              },
+            ]
+          : []),
+      ],
+    };
+  }, [history, queueTypes, readyLabel]);
+
+  const chartOptions = useMemo<ChartOptions<"line">>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      resizeDelay: 250,
+      animation: false,
+      interaction: {
+        mode: "index",
+        intersect: false,
+      },
+      scales: {
+        x: {
+          grid: { display: false },
+          ticks: {
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+            maxTicksLimit: 12,
+          },
+        },
+        y: {
+          beginAtZero: true,
+          ticks: {
+            precision: 0,
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+          },
+          grid: {
+            color: theme === "dark" ? "#334155" : "#e2e8f0",
+          },
+        },
+      },
+      plugins: {
+        legend: {
+          position: "top" as const,
+          labels: {
+            color: theme === "dark" ? "#cbd5e1" : "#64748b",
+          },
+        },
+        tooltip: {
+          mode: "index",
+          intersect: false,
+        },
+      },
+    }),
+    [theme],
+  );
+
+  if (history.length < 2) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface-muted)] p-6 shadow-[var(--shadow-soft)] transition-[background-color,border-color,box-shadow] duration-300 sm:p-8">
+      <div className="space-y-2 text-center md:text-left">
+        <h2 className="text-2xl font-semibold text-[color:var(--foreground)]">
+          Queue Size History
+        </h2>
+        <p className="text-sm text-[color:var(--muted)]">
+          Open submissions at the end of each day, by type and review state.
+        </p>
+      </div>
+      <div className="relative mx-auto mt-8 h-[360px] max-h-[50vh] w-full max-w-[900px]">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+    </section>
+  );
+};
+
+export default QueueHistoryChart;
@@ -1,33 +1,47 @@
 import React, { useMemo } from "react";
 import type { ChartOptions } from "chart.js";
-import { Bar } from "react-chartjs-2";
+import { Chart } from "react-chartjs-2";
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  BarController,
   BarElement,
+  LineController,
+  LineElement,
+  PointElement,
   Title,
   Tooltip,
   Legend,
 } from "chart.js";
 import type { Theme } from "../hooks/useTheme.ts";
-import type { SubmissionFilter } from "../types.ts";
+import type { QueueTypeConfig, SubmissionFilter } from "../types.ts";
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
+  BarController,
   BarElement,
+  LineController,
+  LineElement,
+  PointElement,
   Title,
   Tooltip,
   Legend,
 );
 
 interface ChartDataset {
+  /** Merges render as stacked bars; overlays such as inflow as lines. */
+  type: "bar" | "line";
   label: string;
   data: number[];
   backgroundColor: string;
   borderColor: string;
   borderWidth: number;
+  /** Lines get their own stack so they are not added onto the bars. */
+  stack?: string;
+  borderDash?: number[];
+  pointRadius?: number;
 }
 
 interface ChartDataType {
@@ -39,9 +53,17 @@ interface TimelineChartProps {
   chartData: ChartDataType;
   chartFilter: SubmissionFilter;
   setChartFilter: (filter: SubmissionFilter) => void;
+  queueTypes: QueueTypeConfig[];
   theme: Theme;
 }
 
+const formatList = (items: string[]) => {
+  if (items.length <= 1) {
+    return items[0] ?? "";
+  }
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+};
+
 const buttonBase =
   "inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold transition-[background-color,border-color,color,box-shadow] duration-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[color:var(--accent)]";
 const inactiveButtonClasses =
@@ -53,9 +75,10 @@ const TimelineChart: React.FC<TimelineChartProps> = ({
   chartData,
   chartFilter,
   setChartFilter,
+  queueTypes,
   theme,
 }) => {
-  const chartOptions = useMemo<ChartOptions<"bar">>(
+  const chartOptions = useMemo<ChartOptions<"bar" | "line">>(
     () => ({
       responsive: true,
       maintainAspectRatio: false,
@@ -128,17 +151,25 @@ const TimelineChart: React.FC<TimelineChartProps> = ({
             Merged PRs Timeline
           </h2>
           <p className="text-sm text-[color:var(--muted)]">
-            Represents the number of plugins and themes approved per week.
+            Represents the number of{" "}
+            {formatList(
+              queueTypes.map((type) => type.pluralName.toLowerCase()),
+            )}{" "}
+            approved per week, with the number that reached the queue and the
+            resulting net change overlaid.
           </p>
         </div>
         <div id="chart-filters" className="flex flex-wrap gap-2" role="group">
           {renderButton("All", "all")}
-          {renderButton("Plugins", "plugin")}
-          {renderButton("Themes", "theme")}
+          {queueTypes.map((type) => renderButton(type.pluralName, type.id))}
         </div>
       </div>
       <div className="relative mx-auto mt-8 h-[400px] max-h-[50vh] w-full max-w-[900px]">
-        <Bar data={chartData} options={chartOptions} />
+        <Chart<"bar" | "line", number[], string>
+          type="bar"
+          data={chartData}
+          options={chartOptions}
+        />
       </div>
     </section>
   );
@@ -2,22 +2,38 @@ export {
   queueSummarySchema,
   openQueueDatasetSchema,
   mergedQueueDatasetSchema,
+  queueHistoryDatasetSchema,
 } from "../shared/queueSchema.ts";
 
+import type { QueueTypeConfig } from "../shared/queueSchema.ts";
+
 export type {
   PullRequest,
   MergedPullRequest,
+  QueueTypeConfig,
   WaitEstimate,
   DatasetPointer as DatasetPointerSummary,
   QueueSummary,
+  QueueHistoryEntry,
+  MergeForecast,
 } from "../shared/queueSchema.ts";
 
-const submissionFilters = ["all", "plugin", "theme"] as const;
-
-export type SubmissionFilter = (typeof submissionFilters)[number];
+/**
+ * Either `"all"` or the id of a configured queue type. Persisted filters are
+ * checked against the current configuration with {@link resolveSubmissionFilter}.
+ */
+export type SubmissionFilter = string;
 
-export const isSubmissionFilter = (
-  value: string,
-): value is SubmissionFilter => {
-  return submissionFilters.includes(value as SubmissionFilter);
+/**
+ * The filter to apply: the stored value when it is `"all"` or the id of a
+ * loaded queue type, otherwise `"all"`.
+ */
+export const resolveSubmissionFilter = (
+  value: unknown,
+  queueTypes: QueueTypeConfig[],
+): SubmissionFilter => {
+  return typeof value === "string" &&
+    (value === "all" || queueTypes.some((type) => type.id === value))
+    ? value
+    : "all";
 };
@@ -13,6 +13,8 @@ declare namespace Cloudflare {
 		GH_APP_ID: string;
 		GH_INSTALLATION_ID: string;
 		GH_APP_KEY_PASSWORD: string;
+		QUEUE_CONFIG: string;
+		GITHUB_WEBHOOK_SECRET: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -1,13 +1,34 @@
 import { ingest } from "./ingest.ts";
 import {
+  readDatasetJSON,
   readDatasetPointer,
   readDatasetVersion,
   type DatasetPointer,
 } from "./datasetCache.ts";
 import { readQueueSummary } from "./queueStore.ts";
+import { listIngestRuns, readIngestRun } from "./ingestRuns.ts";
+import {
+  BackfillRequestError,
+  MERGED_ARCHIVE_DATASET,
+  backfillMergedHistory,
+  readBackfillCheckpoint,
+} from "./backfill.ts";
+import { handleGitHubWebhook } from "./webhook.ts";
+import { DATA_QUALITY_DATASET } from "./dataQuality.ts";
+import { OPEN_SUBMISSIONS_DATASET } from "./submissionStates.ts";
+import {
+  dataQualityDatasetSchema,
+  openSubmissionsDatasetSchema,
+} from "../shared/queueSchema.ts";
 
 const summaryRoute = new URLPattern({ pathname: "/api/summary" });
 const triggerRoute = new URLPattern({ pathname: "/api/trigger" });
+const webhookRoute = new URLPattern({ pathname: "/api/webhook/github" });
+const ingestRunsRoute = new URLPattern({ pathname: "/api/ingest/runs" });
+const ingestRunRoute = new URLPattern({ pathname: "/api/ingest/runs/:id" });
+const backfillRoute = new URLPattern({ pathname: "/api/backfill/merged" });
+const dataQualityRoute = new URLPattern({ pathname: "/api/data-quality" });
+const submissionsRoute = new URLPattern({ pathname: "/api/submissions" });
 const pointerRoute = new URLPattern({
   pathname: "/api/data/:dataset/current.json",
 });
@@ -36,10 +57,120 @@ async function respondWithSummaryJson(env: Env): Promise<Response> {
   }
 }
 
+/**
+ * Serve the latest data-quality report: summary counts plus the issue list,
+ * optionally narrowed with `?kind=ghost-merge` (or another issue kind).
+ */
+async function respondWithDataQuality(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const summary = await readQueueSummary(env);
+    const pointer = summary?.datasets.dataQuality ?? null;
+    if (!summary?.dataQuality || !pointer) {
+      return Response.json(
+        { error: "Data-quality report not yet available" },
+        { status: 503 },
+      );
+    }
+
+    const parsed = dataQualityDatasetSchema.safeParse(
+      await readDatasetJSON<unknown>(env.QUEUE_DATA, DATA_QUALITY_DATASET),
+    );
+    if (!parsed.success) {
+      console.error(
+        "Stored data-quality dataset failed validation:",
+        parsed.error,
+      );
+      return Response.json(
+        { error: "Data-quality report is unavailable" },
+        { status: 500 },
+      );
+    }
+
+    const kind = new URL(request.url).searchParams.get("kind");
+    const issues = kind
+      ? parsed.data.filter((issue) => issue.kind === kind)
+      : parsed.data;
+    return Response.json(
+      { ...summary.dataQuality, dataset: pointer, issues },
+      { headers: CACHE_HEADERS },
+    );
+  } catch (error) {
+    console.error("Error fetching data-quality report from KV:", error);
+    return Response.json(
+      { error: "Failed to fetch data-quality report" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Serve every open submission with its review state and per-state counts,
+ * optionally narrowed with `?state=Changes requested` (`none` for PRs without
+ * a state label).
+ */
+async function respondWithSubmissions(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  try {
+    const summary = await readQueueSummary(env);
+    const pointer = summary?.datasets.openSubmissions ?? null;
+    if (!summary?.totals.byState || !pointer) {
+      return Response.json(
+        { error: "Open submissions not yet available" },
+        { status: 503 },
+      );
+    }
+
+    const parsed = openSubmissionsDatasetSchema.safeParse(
+      await readDatasetJSON<unknown>(env.QUEUE_DATA, OPEN_SUBMISSIONS_DATASET),
+    );
+    if (!parsed.success) {
+      console.error(
+        "Stored open submissions dataset failed validation:",
+        parsed.error,
+      );
+      return Response.json(
+        { error: "Open submissions are unavailable" },
+        { status: 500 },
+      );
+    }
+
+    const state = new URL(request.url).searchParams.get("state");
+    const submissions = state
+      ? parsed.data.filter((pr) => (pr.state ?? "none") === state)
+      : parsed.data;
+    return Response.json(
+      {
+        checkedAt: summary.checkedAt,
+        total: summary.totals.submissionsTotal ?? parsed.data.length,
+        byState: summary.totals.byState,
+        dataset: pointer,
+        submissions,
+      },
+      { headers: CACHE_HEADERS },
+    );
+  } catch (error) {
+    console.error("Error fetching open submissions from KV:", error);
+    return Response.json(
+      { error: "Failed to fetch open submissions" },
+      { status: 500 },
+    );
+  }
+}
+
 const TRUE_VALUES = new Set(["1", "true", "yes", "on"]);
+const DEFAULT_RUN_LIST_LIMIT = 20;
 
-async function triggerIngest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
+/**
+ * Check the `TRIGGER_TOKEN` bearer token shared by the admin routes.
+ *
+ * @returns An error response when the request is not authorised, else `null`.
+ */
+function authorizeAdminRequest(request: Request, env: Env): Response | null {
   const authHeader = request.headers.get("Authorization") ?? "";
 
   if (!authHeader.startsWith("Bearer ")) {
@@ -52,35 +183,56 @@ async function triggerIngest(request: Request, env: Env): Promise<Response> {
     return Response.json({ error: "Invalid bearer token" }, { status: 403 });
   }
 
-  let force = false;
-  const forceParam = url.searchParams.get("force");
-  if (forceParam) {
-    const normalized = forceParam.trim().toLowerCase();
-    force = TRUE_VALUES.has(normalized);
-  }
-
-  if (!force) {
-    const contentType = request.headers.get("Content-Type") ?? "";
-    if (contentType.includes("application/json")) {
-      try {
-        const body = (await request.json()) as { force?: unknown };
-        if (typeof body.force === "boolean") {
-          force = body.force;
-        } else if (typeof body.force === "string") {
-          const normalized = body.force.trim().toLowerCase();
-          force = TRUE_VALUES.has(normalized);
-        }
-      } catch (error) {
-        console.warn(
-          "[Trigger] Failed to parse JSON body for /api/trigger",
-          error,
-        );
-      }
-    }
+  return null;
+}
+
+function parseFlagValue(value: unknown): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "string") {
+    return TRUE_VALUES.has(value.trim().toLowerCase());
   }
+  return false;
+}
+
+/**
+ * Whether a boolean option is enabled in the query string or the JSON body.
+ */
+function readFlag(
+  url: URL,
+  body: Record<string, unknown>,
+  name: string,
+): boolean {
+  return (
+    parseFlagValue(url.searchParams.get(name)) || parseFlagValue(body[name])
+  );
+}
+
+async function triggerIngest(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const unauthorized = authorizeAdminRequest(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await readJsonBody(request, "/api/trigger");
+
+  const force = readFlag(url, body, "force");
+  const dryRun = readFlag(url, body, "dryRun");
 
   try {
-    const result = await ingest(env, { force });
+    const result = await ingest(env, { force, dryRun, trigger: "manual" });
+    if (result.lock?.status === "blocked") {
+      return Response.json(
+        {
+          error: "Ingest already running",
+          runningRunId: result.lock.holder.runId,
+          ...result,
+        },
+        { status: 409 },
+      );
+    }
     const status = result.ok ? 202 : 500;
     return Response.json(result, { status });
   } catch (error) {
@@ -92,6 +244,144 @@ async function triggerIngest(request: Request, env: Env): Promise<Response> {
   }
 }
 
+async function readJsonBody(
+  request: Request,
+  route: string,
+): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (!contentType.includes("application/json")) {
+    return {};
+  }
+  try {
+    const parsed: unknown = await request.json();
+    if (parsed && typeof parsed === "object") {
+      return parsed as Record<string, unknown>;
+    }
+  } catch (error) {
+    console.warn(`[API] Failed to parse JSON body for ${route}`, error);
+  }
+  return {};
+}
+
+async function runBackfill(request: Request, env: Env): Promise<Response> {
+  const unauthorized = authorizeAdminRequest(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const url = new URL(request.url);
+  const body = await readJsonBody(request, "/api/backfill/merged");
+  const untilValue = url.searchParams.get("until") ?? body["until"];
+  const monthsValue = Number.parseInt(
+    String(url.searchParams.get("months") ?? body["months"] ?? ""),
+    10,
+  );
+
+  try {
+    const result = await backfillMergedHistory(env, {
+      reset: readFlag(url, body, "reset"),
+      ...(typeof untilValue === "string" ? { until: untilValue } : {}),
+      ...(Number.isFinite(monthsValue) ? { maxMonths: monthsValue } : {}),
+    });
+    const status =
+      result.status === "blocked"
+        ? 409
+        : result.status === "failed"
+          ? 500
+          : 200;
+    return Response.json(result, { status });
+  } catch (error) {
+    if (error instanceof BackfillRequestError) {
+      return Response.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error running merged history backfill:", error);
+    return Response.json({ error: "Failed to run backfill" }, { status: 500 });
+  }
+}
+
+async function respondWithBackfillStatus(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const unauthorized = authorizeAdminRequest(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const [checkpoint, archive] = await Promise.all([
+      readBackfillCheckpoint(env),
+      readDatasetPointer(env.QUEUE_DATA, MERGED_ARCHIVE_DATASET),
+    ]);
+    return Response.json(
+      { checkpoint, archive },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    console.error("Error reading backfill checkpoint from KV:", error);
+    return Response.json(
+      { error: "Failed to read backfill status" },
+      { status: 500 },
+    );
+  }
+}
+
+async function respondWithIngestRuns(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const unauthorized = authorizeAdminRequest(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const url = new URL(request.url);
+  const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  const limit =
+    Number.isFinite(limitParam) && limitParam > 0
+      ? limitParam
+      : DEFAULT_RUN_LIST_LIMIT;
+
+  try {
+    const runs = await listIngestRuns(env, limit);
+    return Response.json(
+      { runs },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    console.error("Error listing ingest runs from KV:", error);
+    return Response.json(
+      { error: "Failed to list ingest runs" },
+      { status: 500 },
+    );
+  }
+}
+
+async function respondWithIngestRun(
+  request: Request,
+  env: Env,
+  id: string,
+): Promise<Response> {
+  const unauthorized = authorizeAdminRequest(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const run = await readIngestRun(env, id);
+    if (!run) {
+      return Response.json({ error: "Ingest run not found" }, { status: 404 });
+    }
+    return Response.json(run, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error fetching ingest run from KV:", error);
+    return Response.json(
+      { error: "Failed to fetch ingest run" },
+      { status: 500 },
+    );
+  }
+}
+
 export async function handleRequest(
   request: Request,
   env: Env,
@@ -102,6 +392,29 @@ export async function handleRequest(
     return respondWithSummaryJson(env);
   }
 
+  if (request.method === "GET" && dataQualityRoute.test(url)) {
+    return respondWithDataQuality(request, env);
+  }
+
+  if (request.method === "GET" && submissionsRoute.test(url)) {
+    return respondWithSubmissions(request, env);
+  }
+
+  if (request.method === "GET" && ingestRunsRoute.test(url)) {
+    return respondWithIngestRuns(request, env);
+  }
+
+  if (request.method === "GET") {
+    const runMatch = ingestRunRoute.exec(url);
+    if (runMatch) {
+      const id = runMatch.pathname.groups?.["id"];
+      if (!id) {
+        return new Response("Run id missing", { status: 400 });
+      }
+      return respondWithIngestRun(request, env, id);
+    }
+  }
+
   if (request.method === "GET") {
     const pointerMatch = pointerRoute.exec(url);
     if (pointerMatch) {
@@ -130,6 +443,19 @@ export async function handleRequest(
     return triggerIngest(request, env);
   }
 
+  if (backfillRoute.test(url)) {
+    if (request.method === "POST") {
+      return runBackfill(request, env);
+    }
+    if (request.method === "GET") {
+      return respondWithBackfillStatus(request, env);
+    }
+  }
+
+  if (request.method === "POST" && webhookRoute.test(url)) {
+    return handleGitHubWebhook(request, env);
+  }
+
   return fetch(request);
 }
 
@@ -0,0 +1,399 @@
+import { z } from "zod";
+import {
+  buildMergedPrPayload,
+  computeLookbackStartDate,
+  createGitHubClient,
+  fetchMergedPullRequestsGraphql,
+  mergeMergedHistory,
+  shiftIsoDate,
+} from "./ingest.ts";
+import { acquireIngestLock, releaseIngestLock } from "./ingestLock.ts";
+import { loadQueueConfig } from "./queueConfig.ts";
+import { createLiveDataSource } from "./queueDataSource.ts";
+import { readDatasetJSON, readDatasetPointer } from "./datasetCache.ts";
+import { normalizeBaseUrl, persistDataset } from "./queueSnapshot.ts";
+import { createRateLimitBudget } from "./rateLimitBudget.ts";
+import {
+  type IngestLogEntry,
+  createIngestLogger,
+  describeError,
+} from "./log.ts";
+import {
+  mergedQueueDatasetSchema,
+  type DatasetPointer,
+  type RateLimitState,
+} from "../shared/queueSchema.ts";
+
+export const MERGED_ARCHIVE_DATASET = "queue-merged-archive";
+
+const BACKFILL_CHECKPOINT_KEY = "backfill:merged-history";
+const DEFAULT_MONTHS_PER_CALL = 3;
+const MAX_MONTHS_PER_CALL = 12;
+// A month of merged history costs a few GraphQL points per search page; stop
+// well before the hourly quota so the regular ingest keeps working.
+const BACKFILL_GRAPHQL_RESERVE = 1000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isoDate = z.string().regex(ISO_DATE_PATTERN);
+
+const backfillCheckpointSchema = z.object({
+  until: isoDate,
+  nextTo: isoDate.nullable(),
+  // Newest day the archive covers. Missing on checkpoints written before the
+  // archive followed the live window forward.
+  archivedThrough: isoDate.optional(),
+  startedAt: z.string().datetime({ offset: true }),
+  updatedAt: z.string().datetime({ offset: true }),
+  monthsCompleted: z.number().int().nonnegative(),
+  truncatedSearchRanges: z.array(z.string()),
+  lastError: z.string().nullable(),
+});
+
+type BackfillCheckpoint = z.infer<typeof backfillCheckpointSchema>;
+
+type BackfillStatus = "running" | "paused" | "complete" | "failed" | "blocked";
+
+interface BackfillOptions {
+  until?: string;
+  maxMonths?: number;
+  reset?: boolean;
+}
+
+interface BackfillResult {
+  ok: boolean;
+  status: BackfillStatus;
+  message: string;
+  monthsProcessed: number;
+  checkpoint: BackfillCheckpoint | null;
+  archive: DatasetPointer | null;
+  rateLimit?: RateLimitState;
+  runningRunId?: string;
+  logs: IngestLogEntry[];
+}
+
+export class BackfillRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackfillRequestError";
+  }
+}
+
+/**
+ * Read the stored backfill checkpoint, if any.
+ */
+export async function readBackfillCheckpoint(
+  env: Env,
+): Promise<BackfillCheckpoint | null> {
+  const raw = await env.QUEUE_DATA.get(BACKFILL_CHECKPOINT_KEY, {
+    type: "json",
+  });
+  if (!raw) return null;
+
+  const parsed = backfillCheckpointSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(
+      "[Backfill] Stored checkpoint is malformed; ignoring it.",
+      parsed.error,
+    );
+    return null;
+  }
+  return parsed.data;
+}
+
+async function writeCheckpoint(
+  env: Env,
+  checkpoint: BackfillCheckpoint,
+): Promise<void> {
+  const validated = backfillCheckpointSchema.parse(checkpoint);
+  await env.QUEUE_DATA.put(BACKFILL_CHECKPOINT_KEY, JSON.stringify(validated));
+}
+
+/**
+ * Work out where the walk should continue, honouring `until` and `reset`.
+ *
+ * The archive ends the day before the live 12-month window starts. A later
+ * call with an older `until` extends a finished walk further back.
+ */
+function resolveCheckpoint(
+  existing: BackfillCheckpoint | null,
+  options: BackfillOptions,
+  archiveEnd: string,
+  nowIso: string,
+): BackfillCheckpoint {
+  if (options.until !== undefined && !ISO_DATE_PATTERN.test(options.until)) {
+    throw new BackfillRequestError("`until` must be a YYYY-MM-DD date.");
+  }
+
+  if (!existing || options.reset) {
+    if (!options.until) {
+      throw new BackfillRequestError(
+        "No backfill checkpoint found; pass `until` to start one.",
+      );
+    }
+    return {
+      until: options.until,
+      nextTo: options.until <= archiveEnd ? archiveEnd : null,
+      archivedThrough: archiveEnd,
+      startedAt: nowIso,
+      updatedAt: nowIso,
+      monthsCompleted: 0,
+      truncatedSearchRanges: [],
+      lastError: null,
+    };
+  }
+
+  const current = {
+    ...existing,
+    archivedThrough:
+      existing.archivedThrough ??
+      shiftIsoDate(computeLookbackStartDate(new Date(existing.startedAt)), -1),
+  };
+  if (!options.until || options.until === existing.until) {
+    return current;
+  }
+  if (options.until > existing.until) {
+    throw new BackfillRequestError(
+      `Checkpoint already targets ${existing.until}; pass \`reset\` to start over from a later date.`,
+    );
+  }
+  return {
+    ...current,
+    until: options.until,
+    nextTo: existing.nextTo ?? shiftIsoDate(existing.until, -1),
+  };
+}
+
+function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+function endOfMonth(date: string): string {
+  const next = new Date(`${startOfMonth(date)}T00:00:00Z`);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  return shiftIsoDate(next.toISOString().slice(0, 10), -1);
+}
+
+interface BackfillRange {
+  from: string;
+  to: string;
+  direction: "forward" | "backward";
+}
+
+/**
+ * Pick the next month to fetch: first the days the live window has trimmed
+ * since the archive was last extended, then the next month further back.
+ */
+function nextBackfillRange(
+  checkpoint: BackfillCheckpoint,
+  archiveEnd: string,
+): BackfillRange | null {
+  if (checkpoint.archivedThrough && checkpoint.archivedThrough < archiveEnd) {
+    const from = shiftIsoDate(checkpoint.archivedThrough, 1);
+    const monthEnd = endOfMonth(from);
+    return {
+      from,
+      to: monthEnd < archiveEnd ? monthEnd : archiveEnd,
+      direction: "forward",
+    };
+  }
+  if (!checkpoint.nextTo) return null;
+
+  const to = checkpoint.nextTo;
+  const monthStart = startOfMonth(to);
+  return {
+    from: monthStart > checkpoint.until ? monthStart : checkpoint.until,
+    to,
+    direction: "backward",
+  };
+}
+
+/**
+ * Walk merged history backwards one calendar month at a time into the archive.
+ *
+ * Each call processes up to `maxMonths` months, writing the archive dataset and
+ * the checkpoint after every month so a failed or rate-limited call resumes
+ * where it stopped. The walk pauses once the GraphQL budget drops below the
+ * reserve. Runs hold the ingest lock so they never overlap a regular ingest.
+ *
+ * @param env - Worker bindings including KV namespace and GitHub App secrets.
+ * @param options - Target date, months per call and whether to restart.
+ * @returns Progress, the stored checkpoint and the archive pointer.
+ * @throws {BackfillRequestError} When the options cannot start or extend a walk.
+ */
+export async function backfillMergedHistory(
+  env: Env,
+  options: BackfillOptions = {},
+): Promise<BackfillResult> {
+  const logger = createIngestLogger();
+  const budget = createRateLimitBudget();
+  const maxMonths = Math.min(
+    Math.max(1, options.maxMonths ?? DEFAULT_MONTHS_PER_CALL),
+    MAX_MONTHS_PER_CALL,
+  );
+
+  const archiveEnd = shiftIsoDate(computeLookbackStartDate(), -1);
+  let checkpoint = resolveCheckpoint(
+    await readBackfillCheckpoint(env),
+    options,
+    archiveEnd,
+    new Date().toISOString(),
+  );
+  let archive = await readDatasetPointer(
+    env.QUEUE_DATA,
+    MERGED_ARCHIVE_DATASET,
+  );
+
+  const runId = crypto.randomUUID();
+  const lock = await acquireIngestLock(env, "backfill", runId);
+  if (lock.status === "blocked") {
+    return {
+      ok: false,
+      status: "blocked",
+      message: `[Backfill] Run ${lock.holder.runId} (${lock.holder.owner}) is in progress; try again later.`,
+      monthsProcessed: 0,
+      checkpoint,
+      archive,
+      runningRunId: lock.holder.runId,
+      logs: logger.entries,
+    };
+  }
+
+  let monthsProcessed = 0;
+  let status: BackfillStatus = nextBackfillRange(checkpoint, archiveEnd)
+    ? "running"
+    : "complete";
+  try {
+    if (options.reset && archive) {
+      logger.info("[Backfill] Reset requested; rebuilding the archive.");
+      archive = null;
+    }
+    await writeCheckpoint(env, checkpoint);
+
+    const config = await loadQueueConfig(env);
+    const octokit = createGitHubClient(
+      createLiveDataSource(env),
+      logger,
+      budget,
+    );
+    const stored = archive
+      ? mergedQueueDatasetSchema.safeParse(
+          await readDatasetJSON<unknown>(
+            env.QUEUE_DATA,
+            MERGED_ARCHIVE_DATASET,
+          ),
+        )
+      : null;
+    if (stored && !stored.success) {
+      throw new Error("Archive dataset is missing or invalid in KV storage.");
+    }
+    let rows = stored?.data ?? [];
+    const baseUrl = normalizeBaseUrl(env.PUBLIC_BASE_URL);
+
+    try {
+      await budget.refresh(octokit);
+    } catch (error) {
+      logger.error(
+        "[Backfill] Failed to read GitHub rate limits; continuing without a budget.",
+        error,
+      );
+    }
+
+    while (monthsProcessed < maxMonths) {
+      const range = nextBackfillRange(checkpoint, archiveEnd);
+      if (!range) break;
+      if (!budget.canAfford("graphql", BACKFILL_GRAPHQL_RESERVE)) {
+        budget.defer("merged-backfill");
+        status = "paused";
+        logger.info(
+          `[Backfill] GraphQL budget low (${budget.remaining("graphql")} points remaining); pausing.`,
+        );
+        break;
+      }
+
+      const { from, to } = range;
+      logger.info(
+        range.direction === "forward"
+          ? `[Backfill] Fetching merged history ${from}..${to} trimmed from the live window...`
+          : `[Backfill] Fetching merged history ${from}..${to}...`,
+      );
+
+      const fetched = await fetchMergedPullRequestsGraphql(
+        octokit,
+        config,
+        from,
+        logger,
+        budget,
+        to,
+      );
+      const monthRows = buildMergedPrPayload(fetched.prs, config, logger);
+      rows = mergeMergedHistory(rows, monthRows);
+
+      const write = await persistDataset(
+        env,
+        MERGED_ARCHIVE_DATASET,
+        rows,
+        archive,
+        { updatedAt: new Date().toISOString(), baseUrl },
+      );
+      archive = write.pointer;
+
+      checkpoint = {
+        ...checkpoint,
+        ...(range.direction === "forward"
+          ? { archivedThrough: to }
+          : {
+              nextTo: from > checkpoint.until ? shiftIsoDate(from, -1) : null,
+            }),
+        updatedAt: new Date().toISOString(),
+        monthsCompleted: checkpoint.monthsCompleted + 1,
+        truncatedSearchRanges: [
+          ...checkpoint.truncatedSearchRanges,
+          ...fetched.truncatedRanges,
+        ],
+        lastError: null,
+      };
+      await writeCheckpoint(env, checkpoint);
+      monthsProcessed += 1;
+      logger.info(
+        `[Backfill] Archived ${monthRows.length} PR(s) merged ${from}..${to} (${rows.length} total).`,
+      );
+    }
+
+    if (!nextBackfillRange(checkpoint, archiveEnd)) {
+      status = "complete";
+    }
+    const message = `[Backfill] ${monthsProcessed} month(s) processed; status ${status}.`;
+    logger.info(message);
+    return {
+      ok: true,
+      status,
+      message,
+      monthsProcessed,
+      checkpoint,
+      archive,
+      rateLimit: budget.snapshot(),
+      logs: logger.entries,
+    };
+  } catch (error) {
+    const message = "[Backfill] Failed to extend merged history archive.";
+    logger.error(message, error);
+    checkpoint = { ...checkpoint, lastError: describeError(error) };
+    try {
+      await writeCheckpoint(env, checkpoint);
+    } catch (checkpointError) {
+      logger.error("[Backfill] Failed to record checkpoint.", checkpointError);
+    }
+    return {
+      ok: false,
+      status: "failed",
+      message,
+      monthsProcessed,
+      checkpoint,
+      archive,
+      rateLimit: budget.snapshot(),
+      logs: logger.entries,
+    };
+  } finally {
+    await releaseIngestLock(env, runId);
+  }
+}
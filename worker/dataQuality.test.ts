@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type {
+  ClosedPullRequest,
+  MergedPullRequest,
+} from "../shared/queueSchema.ts";
+import {
+  buildDataQualityReport,
+  createDataQualityCollector,
+} from "./dataQuality.ts";
+
+const CHECKED_AT = "2026-10-19T00:00:00Z";
+
+function report(overrides: {
+  mergedPrs?: MergedPullRequest[];
+  closedPrs?: ClosedPullRequest[];
+  mergedRefreshMode?: "full" | "incremental" | "cached";
+  closedRefreshed?: boolean;
+  truncatedSearchRanges?: string[];
+  previousTruncatedSearchRanges?: string[];
+}) {
+  return buildDataQualityReport(createDataQualityCollector(), {
+    previous: null,
+    openRefreshed: true,
+    mergedRefreshMode: "full",
+    closedRefreshed: true,
+    openPrs: [],
+    mergedPrs: [],
+    closedPrs: [],
+    truncatedSearchRanges: [],
+    previousTruncatedSearchRanges: [],
+    lookbackStart: "2025-10-19",
+    checkedAt: CHECKED_AT,
+    ...overrides,
+  });
+}
+
+describe("buildDataQualityReport", () => {
+  it("keeps two duration findings on the same PR", () => {
+    const merged: MergedPullRequest = {
+      id: 6900,
+      title: "Add plugin: Focus Timer",
+      url: "https://github.com/o/r/pull/6900",
+      type: "plugin",
+      createdAt: "2026-10-10T00:00:00Z",
+      mergedAt: "2026-10-01T00:00:00Z",
+      daysToMerge: 0,
+      daysInReviewQueue: 5,
+    };
+
+    const { issues, summary } = report({ mergedPrs: [merged] });
+
+    expect(issues.map((issue) => issue.field)).toEqual([
+      "daysInReviewQueue",
+      "daysToMerge",
+    ]);
+    expect(summary.implausibleDurations).toBe(2);
+  });
+
+  it("reports the stored time to close of a closed PR", () => {
+    const closed: ClosedPullRequest = {
+      id: 6995,
+      title: "Add theme: Neon",
+      url: "https://github.com/o/r/pull/6995",
+      type: "theme",
+      createdAt: "2026-09-04T12:00:00Z",
+      closedAt: "2026-09-01T12:00:00Z",
+      daysOpen: 0,
+      labels: ["theme"],
+    };
+
+    const { issues } = report({ closedPrs: [closed] });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      kind: "implausible-duration",
+      field: "daysOpen",
+      detail: "Time to close stored as 0 day(s); closed before it was opened.",
+    });
+  });
+
+  it("carries truncated search ranges until a full refresh", () => {
+    const carried = report({
+      mergedRefreshMode: "incremental",
+      closedRefreshed: false,
+      truncatedSearchRanges: ["2026-10-18..2026-10-18"],
+      previousTruncatedSearchRanges: ["2026-03-02..2026-03-02"],
+    });
+    expect(carried.summary.truncatedSearchRanges).toEqual([
+      "2026-03-02..2026-03-02",
+      "2026-10-18..2026-10-18",
+    ]);
+
+    const cleared = report({
+      previousTruncatedSearchRanges: carried.summary.truncatedSearchRanges,
+    });
+    expect(cleared.summary.truncatedSearchRanges).toEqual([]);
+  });
+});
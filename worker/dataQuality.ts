@@ -0,0 +1,352 @@
+import type {
+  ClosedPullRequest,
+  DataQualityIssue,
+  DataQualitySummary,
+  MergedPullRequest,
+  PullRequest,
+} from "../shared/queueSchema.ts";
+
+export const DATA_QUALITY_DATASET = "queue-data-quality";
+
+// Older than the release repository's review process; anything longer points
+// at a bad timestamp rather than a slow review.
+const MAX_PLAUSIBLE_DAYS = 5 * 365;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type IssueDataset = DataQualityIssue["dataset"];
+type IssueKind = DataQualityIssue["kind"];
+
+interface IssueSubject {
+  id: number;
+  title: string;
+  url: string;
+}
+
+interface DataQualityReportInput {
+  /** Issues stored by the previous run, used for phases served from cache. */
+  previous: DataQualityIssue[] | null;
+  /** Open queue was fetched rather than reused after a 304. */
+  openRefreshed: boolean;
+  mergedRefreshMode: "full" | "incremental" | "cached";
+  closedRefreshed: boolean;
+  openPrs: PullRequest[];
+  mergedPrs: MergedPullRequest[];
+  closedPrs: ClosedPullRequest[];
+  truncatedSearchRanges: string[];
+  /** Truncated ranges reported by the previous run. */
+  previousTruncatedSearchRanges: string[];
+  /** First day (YYYY-MM-DD) of the history lookback window. */
+  lookbackStart: string;
+  checkedAt: string;
+}
+
+interface DataQualityReport {
+  issues: DataQualityIssue[];
+  summary: DataQualitySummary;
+}
+
+function toIssue(
+  kind: IssueKind,
+  dataset: IssueDataset,
+  subject: IssueSubject,
+  at: string,
+  detail: string,
+  field?: string,
+): DataQualityIssue {
+  return {
+    id: subject.id,
+    kind,
+    dataset,
+    title: subject.title,
+    url: subject.url,
+    at,
+    ...(field ? { field } : {}),
+    detail,
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+}
+
+/**
+ * Stable identity of a data-quality issue across runs. The field keeps two
+ * duration findings on the same PR apart.
+ */
+export function issueKey(issue: DataQualityIssue): string {
+  const key = `${issue.kind}:${issue.dataset}:${issue.id}`;
+  return issue.field ? `${key}:${issue.field}` : key;
+}
+
+/**
+ * Collect rows the payload builders drop, so the report can list them.
+ *
+ * Only the builders see ghost merges and unlabeled open or closed PRs; every
+ * other check runs on the finished datasets in {@link buildDataQualityReport}.
+ */
+export function createDataQualityCollector() {
+  const entries: DataQualityIssue[] = [];
+
+  return {
+    entries,
+    ghostMerge(
+      subject: IssueSubject,
+      mergedAt: string,
+      commits: number,
+      changedFiles: number,
+    ): void {
+      entries.push(
+        toIssue(
+          "ghost-merge",
+          "merged",
+          subject,
+          mergedAt,
+          `Merged with ${commits} commit(s) and ${changedFiles} changed file(s); excluded from history.`,
+        ),
+      );
+    },
+    unlabeled(dataset: IssueDataset, subject: IssueSubject, at: string): void {
+      entries.push(
+        toIssue(
+          "unlabeled",
+          dataset,
+          subject,
+          at,
+          "No configured queue type label; excluded from the dataset.",
+        ),
+      );
+    },
+  };
+}
+
+export type DataQualityCollector = ReturnType<
+  typeof createDataQualityCollector
+>;
+
+function findDuplicates(
+  openPrs: PullRequest[],
+  mergedPrs: MergedPullRequest[],
+  closedPrs: ClosedPullRequest[],
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const seen = new Map<number, IssueDataset[]>();
+  const scan = (
+    dataset: IssueDataset,
+    rows: Array<IssueSubject & { at: string }>,
+  ) => {
+    for (const row of rows) {
+      const datasets = seen.get(row.id) ?? [];
+      if (datasets.length > 0) {
+        issues.push(
+          toIssue(
+            "duplicate",
+            dataset,
+            row,
+            row.at,
+            datasets.includes(dataset)
+              ? `PR #${row.id} appears more than once in the ${dataset} dataset.`
+              : `PR #${row.id} is also listed as ${datasets.join(" and ")}.`,
+          ),
+        );
+      }
+      seen.set(row.id, [...datasets, dataset]);
+    }
+  };
+
+  scan(
+    "open",
+    openPrs.map((pr) => ({ ...pr, at: pr.createdAt })),
+  );
+  scan(
+    "merged",
+    mergedPrs.map((pr) => ({ ...pr, at: pr.mergedAt })),
+  );
+  scan(
+    "closed",
+    closedPrs.map((pr) => ({ ...pr, at: pr.closedAt })),
+  );
+  return issues;
+}
+
+function findImplausibleDurations(
+  openPrs: PullRequest[],
+  mergedPrs: MergedPullRequest[],
+  closedPrs: ClosedPullRequest[],
+  checkedAt: string,
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+  const check = (
+    dataset: IssueDataset,
+    subject: IssueSubject,
+    at: string,
+    field: string,
+    label: string,
+    days: number,
+  ) => {
+    if (days < 0 || days > MAX_PLAUSIBLE_DAYS) {
+      issues.push(
+        toIssue(
+          "implausible-duration",
+          dataset,
+          subject,
+          at,
+          `${label} of ${days.toFixed(1)} day(s).`,
+          field,
+        ),
+      );
+    }
+  };
+
+  for (const pr of openPrs) {
+    check(
+      "open",
+      pr,
+      pr.createdAt,
+      "createdAt",
+      "Open for",
+      daysBetween(pr.createdAt, checkedAt),
+    );
+  }
+  for (const pr of mergedPrs) {
+    check(
+      "merged",
+      pr,
+      pr.mergedAt,
+      "daysToMerge",
+      "Time to merge",
+      daysBetween(pr.createdAt, pr.mergedAt),
+    );
+    const queueDays = pr.daysInReviewQueue;
+    if (
+      queueDays !== null &&
+      queueDays !== undefined &&
+      queueDays > pr.daysToMerge + 1
+    ) {
+      issues.push(
+        toIssue(
+          "implausible-duration",
+          "merged",
+          pr,
+          pr.mergedAt,
+          `Review queue time of ${queueDays} day(s) exceeds time to merge (${pr.daysToMerge} day(s)).`,
+          "daysInReviewQueue",
+        ),
+      );
+    }
+  }
+  for (const pr of closedPrs) {
+    // `daysOpen` is clamped at zero on ingest, so report the stored value and
+    // say why it is wrong when the close precedes the open.
+    const closedBeforeOpen = daysBetween(pr.createdAt, pr.closedAt) < 0;
+    if (closedBeforeOpen || pr.daysOpen > MAX_PLAUSIBLE_DAYS) {
+      issues.push(
+        toIssue(
+          "implausible-duration",
+          "closed",
+          pr,
+          pr.closedAt,
+          closedBeforeOpen
+            ? `Time to close stored as ${pr.daysOpen} day(s); closed before it was opened.`
+            : `Time to close of ${pr.daysOpen} day(s).`,
+          "daysOpen",
+        ),
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Assemble the data-quality report for an ingest run.
+ *
+ * Dropped-row issues come from the collector for phases fetched this run and
+ * from the previous report for phases served from cache, so a cached run does
+ * not forget ghost merges seen earlier. Carried issues outside the lookback
+ * window are dropped. Duplicates, implausible durations and merged rows
+ * without a type label are recomputed from the final datasets every run.
+ * Truncated search ranges accumulate until a run refreshes both the merged
+ * history in full and the closed history, which searches every range again.
+ *
+ * @param collector - Rows dropped by the payload builders this run.
+ * @param input - Final datasets and which phases were refreshed.
+ * @returns Issues for the dataset, sorted for a stable hash, and summary counts.
+ */
+export function buildDataQualityReport(
+  collector: DataQualityCollector,
+  input: DataQualityReportInput,
+): DataQualityReport {
+  const windowStart = new Date(input.lookbackStart).getTime();
+  const carried = (input.previous ?? []).filter((issue) => {
+    const reusable =
+      (issue.kind === "ghost-merge" && input.mergedRefreshMode !== "full") ||
+      (issue.kind === "unlabeled" &&
+        issue.dataset === "open" &&
+        !input.openRefreshed) ||
+      (issue.kind === "unlabeled" &&
+        issue.dataset === "closed" &&
+        !input.closedRefreshed);
+    return (
+      reusable &&
+      (issue.dataset === "open" || new Date(issue.at).getTime() >= windowStart)
+    );
+  });
+
+  const unlabeledMerged = input.mergedPrs
+    .filter((pr) => pr.type === "unknown")
+    .map((pr) =>
+      toIssue(
+        "unlabeled",
+        "merged",
+        pr,
+        pr.mergedAt,
+        "No configured queue type label; kept in history but not counted per type.",
+      ),
+    );
+
+  // Fresh detections win over carried ones for the same PR.
+  const byKey = new Map<string, DataQualityIssue>();
+  for (const issue of [
+    ...carried,
+    ...collector.entries,
+    ...unlabeledMerged,
+    ...findDuplicates(input.openPrs, input.mergedPrs, input.closedPrs),
+    ...findImplausibleDurations(
+      input.openPrs,
+      input.mergedPrs,
+      input.closedPrs,
+      input.checkedAt,
+    ),
+  ]) {
+    byKey.set(issueKey(issue), issue);
+  }
+
+  const issues = [...byKey.values()].sort(
+    (a, b) =>
+      a.kind.localeCompare(b.kind) ||
+      a.dataset.localeCompare(b.dataset) ||
+      a.id - b.id ||
+      (a.field ?? "").localeCompare(b.field ?? ""),
+  );
+  const fullRefresh =
+    input.mergedRefreshMode === "full" && input.closedRefreshed;
+  const truncatedSearchRanges = [
+    ...new Set([
+      ...(fullRefresh ? [] : input.previousTruncatedSearchRanges),
+      ...input.truncatedSearchRanges,
+    ]),
+  ].sort();
+  const count = (kind: IssueKind) =>
+    issues.filter((issue) => issue.kind === kind).length;
+
+  return {
+    issues,
+    summary: {
+      checkedAt: input.checkedAt,
+      ghostMerges: count("ghost-merge"),
+      unlabeled: count("unlabeled"),
+      duplicates: count("duplicate"),
+      implausibleDurations: count("implausible-duration"),
+      truncatedSearchRanges,
+    },
+  };
+}
@@ -114,13 +114,16 @@ export async function writeDatasetJSON(
   return writeDatasetVersion(kv, dataset, version, content, options);
 }
 
-async function writeDatasetVersion(
-  kv: KVNamespace,
+/**
+ * Build the pointer a dataset version would be published under, without
+ * writing anything.
+ */
+export function buildDatasetPointer(
   dataset: string,
   version: string,
   content: string,
   options: DatasetWriteOptions = {},
-): Promise<DatasetPointer> {
+): DatasetPointer {
   const safeName = assertValidDatasetName(dataset);
   const safeVersion = assertValidVersion(version);
 
@@ -143,7 +146,7 @@ async function writeDatasetVersion(
     }
   }
 
-  const pointer = datasetPointerWithoutMetadataSchema.parse({
+  return datasetPointerWithoutMetadataSchema.parse({
     dataset: safeName,
     version: safeVersion,
     url: pointerUrl,
@@ -154,6 +157,17 @@ async function writeDatasetVersion(
         ? options.hash
         : undefined,
   });
+}
+
+async function writeDatasetVersion(
+  kv: KVNamespace,
+  dataset: string,
+  version: string,
+  content: string,
+  options: DatasetWriteOptions = {},
+): Promise<DatasetPointer> {
+  const pointer = buildDatasetPointer(dataset, version, content, options);
+  const { dataset: safeName, version: safeVersion, updatedAt } = pointer;
 
   await kv.put(contentKey(safeName, safeVersion), content, {
     metadata: {
@@ -2,6 +2,10 @@ import { ingest } from "./ingest.ts";
 import { handleRequest } from "./api.ts";
 import { pruneDatasetVersions } from "./datasetCache.ts";
 
+// Webhook updates hold the ingest lease for up to a minute; wait that out
+// rather than skipping the hour.
+const CRON_LOCK_WAIT_MS = 90_000;
+
 async function sleep(ms: number): Promise<void> {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -24,8 +28,15 @@ export default {
       `[Scheduled] Cron trigger fired at ${controller.scheduledTime}`,
     );
 
-    const result = await ingest(env);
-    if (!result.ok) {
+    const result = await ingest(env, {
+      trigger: "cron",
+      lockWaitMs: CRON_LOCK_WAIT_MS,
+    });
+    if (result.lock?.status === "blocked") {
+      console.info(
+        `[Scheduled] Skipped; ingest run ${result.lock.holder.runId} is still in progress.`,
+      );
+    } else if (!result.ok) {
       console.error(
         `[Scheduled] Ingest failed at ${controller.scheduledTime}`,
         result.error ?? result.message,
@@ -38,6 +49,11 @@ export default {
           await sleep(70_000);
           await pruneDatasetVersions(env.QUEUE_DATA, "queue-open");
           await pruneDatasetVersions(env.QUEUE_DATA, "queue-merged");
+          await pruneDatasetVersions(env.QUEUE_DATA, "queue-closed");
+          await pruneDatasetVersions(env.QUEUE_DATA, "queue-merged-archive");
+          await pruneDatasetVersions(env.QUEUE_DATA, "queue-data-quality");
+          await pruneDatasetVersions(env.QUEUE_DATA, "queue-submissions");
+          await pruneDatasetVersions(env.QUEUE_DATA, "queue-history");
         } catch (error) {
           console.error("[Scheduled] Failed to prune dataset cache:", error);
         }
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mergedQueueDatasetSchema } from "../shared/queueSchema.ts";
+import { readDatasetJSON } from "./datasetCache.ts";
+import { ingest } from "./ingest.ts";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import { createReplayDataSource } from "./queueDataSource.ts";
+import { MERGED_HISTORY_DATASET } from "./queueSnapshot.ts";
+import { readQueueSummary } from "./queueStore.ts";
+
+// Hand-authored exchanges in the recorder's format for two runs on 2026-10-19
+// against a synthetic repository: two Ready for review PRs, a third open
+// submission with changes requested, six merged submissions plus a ghost merge
+// (no commits, no changed files) and two closed ones. The first listing of the
+// ready queue fails with a 502 and is retried; the second run hits the ETag
+// 304 and the merged/closed tripwires.
+const fixtures = Object.entries(
+  import.meta.glob<unknown>("./__fixtures__/ingest/*.json", {
+    eager: true,
+    import: "default",
+  }),
+)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([, exchange]) => exchange);
+
+describe("ingest replay", () => {
+  beforeEach(() => {
+    // Search ranges and wait estimates are relative to the recording date.
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rebuilds the summary from the fixtures", async () => {
+    const env = createMemoryEnv();
+    const dataSource = createReplayDataSource(fixtures);
+
+    const first = await ingest(env, { dataSource });
+    expect(first).toMatchObject({
+      ok: true,
+      summaryUpdated: true,
+      openDatasetUpdated: true,
+      mergedDatasetUpdated: true,
+      closedDatasetUpdated: true,
+      mergedRefreshMode: "full",
+      searchTruncated: false,
+    });
+    const summary = await readQueueSummary(env);
+    expect(summary?.totals).toEqual({
+      readyTotal: 2,
+      byType: { plugin: 1, theme: 1 },
+      submissionsTotal: 3,
+      byState: {
+        "Ready for review": 2,
+        "Changes requested": 1,
+        "Validation failed": 0,
+        none: 0,
+      },
+    });
+    expect(summary?.latestMergedAt).toBe("2026-10-06T12:00:00Z");
+    expect(summary?.latestClosedAt).toBe("2026-09-04T12:00:00Z");
+    expect(summary?.dataQuality?.ghostMerges).toBe(1);
+    expect(first.logs.map((entry) => entry.message)).toContainEqual(
+      expect.stringMatching(
+        /^\[Retry\] ready-for-review page 1 failed \(attempt 1\/5\)/,
+      ),
+    );
+
+    const merged = mergedQueueDatasetSchema.parse(
+      await readDatasetJSON<unknown>(env.QUEUE_DATA, MERGED_HISTORY_DATASET),
+    );
+    expect(merged).toHaveLength(6);
+    expect(merged.map((pr) => pr.id)).not.toContain(6960);
+
+    const second = await ingest(env, { dataSource });
+    expect(second).toMatchObject({
+      ok: true,
+      openDatasetUpdated: false,
+      mergedDatasetUpdated: false,
+      closedDatasetUpdated: false,
+      mergedRefreshMode: "cached",
+      openDatasetVersion: first.openDatasetVersion,
+    });
+    expect(second.logs.map((entry) => entry.message)).toContain(
+      "[Ingest] Open queue unchanged (304). Skipping fetch.",
+    );
+  });
+});
@@ -1,52 +1,79 @@
 import { Octokit } from "@octokit/rest";
 import { RequestError } from "@octokit/request-error";
-import { buildWeeklyMergedSummary, computeWaitEstimate } from "./metrics.ts";
-import {
-  GH_HEADERS_BASE,
-  getGitHubInstallationToken,
-  invalidateGitHubInstallationToken,
-} from "./githubAuth.ts";
+import { computeQueueProjections } from "./metrics.ts";
+import { GH_HEADERS_BASE } from "./githubAuth.ts";
 import {
+  closedQueueDatasetSchema,
+  dataQualityDatasetSchema,
+  queueHistoryDatasetSchema,
+  queueSummarySchema,
+  type ClosedPullRequest,
   type MergedPullRequest,
+  type OpenSubmission,
   type PullRequest,
+  type QueueConfig,
   type QueueSummary,
+  type RateLimitState,
+  type SubmissionManifest,
 } from "../shared/queueSchema.ts";
+import { loadQueueConfig, resolveTypeFromLabels } from "./queueConfig.ts";
 import { readQueueSummary, writeQueueSummary } from "./queueStore.ts";
+import { readDatasetJSON } from "./datasetCache.ts";
+import {
+  acquireIngestLock,
+  releaseIngestLock,
+  waitForIngestLock,
+  type IngestLockState,
+} from "./ingestLock.ts";
+import {
+  recordIngestRun,
+  type IngestRun,
+  type IngestTrigger,
+} from "./ingestRuns.ts";
+import {
+  createRateLimitBudget,
+  type RateLimitBudget,
+} from "./rateLimitBudget.ts";
+import {
+  CLOSED_HISTORY_DATASET,
+  MERGED_HISTORY_DATASET,
+  OPEN_QUEUE_DATASET,
+  buildQueueSummaryMetrics,
+  diffDataset,
+  normalizeBaseUrl,
+  persistDataset,
+  type DatasetDiff,
+} from "./queueSnapshot.ts";
+import {
+  createLiveDataSource,
+  type QueueDataSource,
+} from "./queueDataSource.ts";
+import {
+  annotateSubmissions,
+  parseManifestEntry,
+  resolveSubmissionManifests,
+} from "./resubmissions.ts";
+import {
+  DATA_QUALITY_DATASET,
+  buildDataQualityReport,
+  createDataQualityCollector,
+  issueKey,
+  type DataQualityCollector,
+} from "./dataQuality.ts";
 import {
-  readDatasetJSON,
-  writeDatasetJSON,
-  type DatasetPointer,
-} from "./datasetCache.ts";
+  OPEN_SUBMISSIONS_DATASET,
+  countSubmissionsByState,
+  resolveReviewState,
+  resolveStateLabels,
+} from "./submissionStates.ts";
+import { QUEUE_HISTORY_DATASET, updateQueueHistory } from "./queueHistory.ts";
+import { applyQueuedWebhookEvents } from "./webhook.ts";
 import {
   type IngestLogEntry,
   createIngestLogger,
   describeError,
 } from "./log.ts";
 
-const REVIEW_TYPES = ["plugin", "theme"] as const;
-const READY_FOR_REVIEW_LABEL = "Ready for review";
-const GITHUB_OWNER = "obsidianmd";
-const GITHUB_REPO = "obsidian-releases";
-const OPEN_QUEUE_DATASET = "queue-open";
-const MERGED_HISTORY_DATASET = "queue-merged";
-
-function normalizeBaseUrl(raw?: string): string | undefined {
-  if (!raw) return undefined;
-  try {
-    const normalized = new URL(raw);
-    return normalized.toString();
-  } catch (error) {
-    console.warn(
-      `[Ingest] Ignoring invalid PUBLIC_BASE_URL value "${raw}":`,
-      error,
-    );
-    return undefined;
-  }
-}
-
-type ReviewAssetType = (typeof REVIEW_TYPES)[number];
-type ReviewAssetTypeWithFallback = ReviewAssetType | "unknown";
-
 type IngestLogger = ReturnType<typeof createIngestLogger>;
 
 // This interface is a subset of the GitHub API response for search results
@@ -71,6 +98,12 @@ interface GraphqlLabelNode {
   name: string;
 }
 
+interface GraphqlLabelEventNode {
+  __typename: "LabeledEvent" | "UnlabeledEvent";
+  createdAt: string;
+  label: GraphqlLabelNode | null;
+}
+
 interface GraphqlMergedPrNode {
   number: number;
   title: string;
@@ -86,24 +119,81 @@ interface GraphqlMergedPrNode {
   labels: {
     nodes: GraphqlLabelNode[];
   };
+  timelineItems: {
+    nodes: (GraphqlLabelEventNode | null)[];
+  } | null;
+  author: {
+    login: string;
+  } | null;
+  mergedBy: {
+    login: string;
+  } | null;
+  mergeCommit: {
+    oid: string;
+  } | null;
+}
+
+interface GraphqlClosedPrNode {
+  number: number;
+  title: string;
+  url: string;
+  createdAt: string;
+  closedAt: string;
+  labels: {
+    nodes: GraphqlLabelNode[];
+  };
+}
+
+interface GraphqlOpenPrNode {
+  number: number;
+  title: string;
+  url: string;
+  createdAt: string;
+  labels: {
+    nodes: GraphqlLabelNode[];
+  };
+  timelineItems: {
+    nodes: (GraphqlLabelEventNode | null)[];
+  } | null;
+}
+
+interface GraphqlOpenPullRequestsResponse {
+  rateLimit: GraphqlSearchResponse<never>["rateLimit"];
+  repository: {
+    pullRequests: {
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+      nodes: (GraphqlOpenPrNode | null)[];
+    };
+  } | null;
 }
 
-interface GraphqlMergedPrConnection {
+interface GraphqlSearchConnection<TNode> {
   issueCount: number;
   pageInfo: {
     hasNextPage: boolean;
     endCursor: string | null;
   };
-  nodes: (GraphqlMergedPrNode | null)[];
+  nodes: (TNode | null)[];
 }
 
-interface GraphqlMergedSearchResponse {
+interface GraphqlSearchResponse<TNode> {
   rateLimit: {
     cost: number;
+    limit: number;
     remaining: number;
+    used: number;
     resetAt: string;
   };
-  search: GraphqlMergedPrConnection;
+  search: GraphqlSearchConnection<TNode>;
+}
+
+interface LabelEvent {
+  action: "labeled" | "unlabeled";
+  label: string;
+  createdAt: string;
 }
 
 interface GraphqlMergedPrResult {
@@ -113,12 +203,25 @@ interface GraphqlMergedPrResult {
   createdAt: string;
   mergedAt: string;
   labels: string[];
+  labelEvents: LabelEvent[];
+  author: string | null;
+  mergedBy: string | null;
+  mergeCommitSha: string | null;
   commitsTotal: number;
   additions: number;
   deletions: number;
   changedFiles: number;
 }
 
+interface GraphqlClosedPrResult {
+  number: number;
+  title: string;
+  url: string;
+  createdAt: string;
+  closedAt: string;
+  labels: string[];
+}
+
 const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
 const MAX_RETRY_ATTEMPTS = 5;
 const BASE_RETRY_DELAY_MS = 500;
@@ -187,7 +290,10 @@ async function executeWithRetries<T>(
   throw lastError;
 }
 
+type MergedRefreshMode = "full" | "incremental" | "cached";
+
 interface IngestResult {
+  runId: string;
   ok: boolean;
   message: string;
   logs: IngestLogEntry[];
@@ -195,125 +301,552 @@ interface IngestResult {
   summaryUpdated?: boolean;
   openDatasetUpdated?: boolean;
   mergedDatasetUpdated?: boolean;
+  closedDatasetUpdated?: boolean;
+  mergedRefreshMode?: MergedRefreshMode;
+  searchTruncated: boolean;
+  truncatedSearchRanges: string[];
   openDatasetVersion?: string;
   mergedDatasetVersion?: string;
+  closedDatasetVersion?: string;
   checkedAt?: string;
   forced: boolean;
+  rateLimit?: RateLimitState;
+  lock?: IngestLockState;
+  dryRun?: IngestDryRunReport;
+}
+
+interface IngestDryRunReport {
+  summary: QueueSummary;
+  datasets: DatasetDiff[];
 }
 
 interface IngestOptions {
   force?: boolean;
+  dryRun?: boolean;
+  trigger?: IngestTrigger;
+  /** Where GitHub data comes from; defaults to the live API. */
+  dataSource?: QueueDataSource;
+  /** How long to retry a held lease before reporting the run as blocked. */
+  lockWaitMs?: number;
 }
 
 const GRAPHQL_SEARCH_PAGE_SIZE = 100;
+const SEARCH_RESULT_CAP = 1000;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function mapLabelEvents(nodes: (GraphqlLabelEventNode | null)[]): LabelEvent[] {
+  const events: LabelEvent[] = [];
+  for (const node of nodes) {
+    if (!node?.label) continue;
+    events.push({
+      action: node.__typename === "LabeledEvent" ? "labeled" : "unlabeled",
+      label: node.label.name,
+      createdAt: node.createdAt,
+    });
+  }
+  return events;
+}
 
-async function fetchMergedPullRequestsGraphql(
-  octokit: Octokit,
-  sinceDate: string,
-  logger: IngestLogger,
-): Promise<GraphqlMergedPrResult[]> {
-  const searchQuery = `${buildCombinedMergedSearchQuery(sinceDate)} sort:updated-desc`;
-  const aggregated: GraphqlMergedPrResult[] = [];
-  let afterCursor: string | null = null;
-  let page = 1;
+interface ReviewQueueTimeline {
+  readyForReviewAt: string | null;
+  lastReadyForReviewAt: string | null;
+  daysInReviewQueue: number | null;
+}
 
-  while (true) {
-    const response: GraphqlMergedSearchResponse = await executeWithRetries(
-      `merged history GraphQL page ${page}`,
-      () =>
-        octokit.graphql<GraphqlMergedSearchResponse>(
-          `
-              query FetchMergedPullRequests(
-                $searchQuery: String!
-                $first: Int!
-                $after: String
-        ) {
-          rateLimit {
-            cost
-            remaining
-            resetAt
+/**
+ * Replay label events to determine how long a PR carried the review label.
+ *
+ * Intervals still open when the PR was merged are closed at `endAt`. PRs that
+ * never received the label report `null` for every field so consumers can fall
+ * back to creation-based durations.
+ *
+ * @param events - Labeled/unlabeled events in any order.
+ * @param endAt - ISO timestamp closing any interval still open.
+ * @param readyLabel - Name of the label marking a PR as ready for review.
+ * @returns First and last time the label was applied plus total days under it.
+ */
+function summariseReviewQueueTimeline(
+  events: LabelEvent[],
+  endAt: string,
+  readyLabel: string,
+): ReviewQueueTimeline {
+  const relevant = events
+    .filter((event) => event.label === readyLabel)
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+
+  let readyForReviewAt: string | null = null;
+  let lastReadyForReviewAt: string | null = null;
+  let activeSince: number | null = null;
+  let totalMs = 0;
+
+  for (const event of relevant) {
+    const at = new Date(event.createdAt).getTime();
+    if (event.action === "labeled") {
+      if (activeSince !== null) continue;
+      activeSince = at;
+      readyForReviewAt ??= event.createdAt;
+      lastReadyForReviewAt = event.createdAt;
+    } else if (activeSince !== null) {
+      totalMs += Math.max(0, at - activeSince);
+      activeSince = null;
+    }
+  }
+
+  if (activeSince !== null) {
+    totalMs += Math.max(0, new Date(endAt).getTime() - activeSince);
+  }
+
+  return {
+    readyForReviewAt,
+    lastReadyForReviewAt,
+    daysInReviewQueue:
+      readyForReviewAt === null ? null : Math.round(totalMs / DAY_MS),
+  };
+}
+
+const MERGED_SEARCH_GRAPHQL = `
+  query FetchMergedPullRequests(
+    $searchQuery: String!
+    $first: Int!
+    $after: String
+  ) {
+    rateLimit {
+      cost
+      limit
+      remaining
+      used
+      resetAt
+    }
+    search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
+      issueCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ... on PullRequest {
+          number
+          title
+          url
+          createdAt
+          mergedAt
+          additions
+          deletions
+          changedFiles
+          commits {
+            totalCount
+          }
+          labels(first: 10) {
+            nodes {
+              name
+            }
+          }
+          timelineItems(itemTypes: [LABELED_EVENT, UNLABELED_EVENT], first: 100) {
+            nodes {
+              __typename
+              ... on LabeledEvent {
+                createdAt
+                label {
+                  name
+                }
+              }
+              ... on UnlabeledEvent {
+                createdAt
+                label {
+                  name
+                }
+              }
+            }
+          }
+          author {
+            login
+          }
+          mergedBy {
+            login
+          }
+          mergeCommit {
+            oid
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CLOSED_SEARCH_GRAPHQL = `
+  query FetchClosedPullRequests(
+    $searchQuery: String!
+    $first: Int!
+    $after: String
+  ) {
+    rateLimit {
+      cost
+      limit
+      remaining
+      used
+      resetAt
+    }
+    search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
+      issueCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ... on PullRequest {
+          number
+          title
+          url
+          createdAt
+          closedAt
+          labels(first: 10) {
+            nodes {
+              name
+            }
           }
-          search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
-            issueCount
-            pageInfo {
-              hasNextPage
-              endCursor
+        }
+      }
+    }
+  }
+`;
+
+// Lists the repository's open PRs directly rather than through search, so the
+// 1,000-result search cap does not apply. The most recent label events are
+// enough to tell when the current state label was applied.
+const OPEN_PULL_REQUESTS_GRAPHQL = `
+  query FetchOpenPullRequests(
+    $owner: String!
+    $repo: String!
+    $first: Int!
+    $after: String
+  ) {
+    rateLimit {
+      cost
+      limit
+      remaining
+      used
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequests(
+        states: OPEN
+        first: $first
+        after: $after
+        orderBy: { field: CREATED_AT, direction: ASC }
+      ) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          number
+          title
+          url
+          createdAt
+          labels(first: 20) {
+            nodes {
+              name
             }
+          }
+          timelineItems(itemTypes: [LABELED_EVENT, UNLABELED_EVENT], last: 50) {
             nodes {
-              ... on PullRequest {
-                number
-                title
-                url
+              __typename
+              ... on LabeledEvent {
                 createdAt
-                mergedAt
-                additions
-                deletions
-                changedFiles
-                commits {
-                  totalCount
+                label {
+                  name
                 }
-                labels(first: 10) {
-                  nodes {
-                    name
-                  }
+              }
+              ... on UnlabeledEvent {
+                createdAt
+                label {
+                  name
                 }
               }
             }
           }
         }
-      `,
-          {
+      }
+    }
+  }
+`;
+
+/**
+ * Inclusive range of calendar days (YYYY-MM-DD) used to partition searches.
+ */
+interface SearchDateRange {
+  from: string;
+  to: string;
+}
+
+interface GraphqlSearchResult<TNode> {
+  nodes: TNode[];
+  truncatedRanges: string[];
+}
+
+export function shiftIsoDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function daysInRange(range: SearchDateRange): number {
+  const from = new Date(`${range.from}T00:00:00Z`).getTime();
+  const to = new Date(`${range.to}T00:00:00Z`).getTime();
+  return Math.round((to - from) / DAY_MS) + 1;
+}
+
+function formatSearchDateRange(range: SearchDateRange): string {
+  return `${range.from}..${range.to}`;
+}
+
+/**
+ * Page through a GraphQL issue search, collecting every non-null node.
+ *
+ * GitHub caps search results at 1,000 items regardless of `issueCount`. When
+ * the first page reports more matches than that, the date range is split in
+ * half and each half is searched recursively until every slice fits under the
+ * cap. Single-day slices that still exceed it are fetched up to the cap and
+ * reported in `truncatedRanges`.
+ *
+ * @param octokit - Authenticated Octokit client.
+ * @param description - Human-readable label used in retry and debug logs.
+ * @param document - GraphQL document accepting `searchQuery`, `first` and `after`.
+ * @param buildSearchQuery - Builds the GitHub search expression for a date slice.
+ * @param range - Inclusive date range to search.
+ * @param logger - Ingest logger for diagnostic output.
+ * @param budget - Rate-limit budget updated from each response's `rateLimit` block.
+ * @returns All nodes returned across slices and pages, plus truncated slices.
+ */
+async function fetchGraphqlSearchNodes<TNode>(
+  octokit: Octokit,
+  description: string,
+  document: string,
+  buildSearchQuery: (range: SearchDateRange) => string,
+  range: SearchDateRange,
+  logger: IngestLogger,
+  budget: RateLimitBudget,
+): Promise<GraphqlSearchResult<TNode>> {
+  const aggregated: TNode[] = [];
+  const truncatedRanges: string[] = [];
+
+  const collect = async (slice: SearchDateRange): Promise<void> => {
+    const sliceLabel = formatSearchDateRange(slice);
+    const searchQuery = buildSearchQuery(slice);
+    const collected: TNode[] = [];
+    let afterCursor: string | null = null;
+    let page = 1;
+
+    while (true) {
+      const response: GraphqlSearchResponse<TNode> = await executeWithRetries(
+        `${description} GraphQL ${sliceLabel} page ${page}`,
+        () =>
+          octokit.graphql<GraphqlSearchResponse<TNode>>(document, {
             searchQuery,
             first: GRAPHQL_SEARCH_PAGE_SIZE,
             after: afterCursor ?? undefined,
-          },
-        ),
+          }),
+        logger,
+      );
+      budget.recordGraphql(response.rateLimit);
+
+      const { issueCount } = response.search;
+      if (page === 1 && issueCount > SEARCH_RESULT_CAP) {
+        const days = daysInRange(slice);
+        if (days > 1) {
+          const leftDays = Math.floor(days / 2);
+          const left = {
+            from: slice.from,
+            to: shiftIsoDate(slice.from, leftDays - 1),
+          };
+          const right = { from: shiftIsoDate(left.to, 1), to: slice.to };
+          logger.debug(
+            `[GitHub] ${description} slice ${sliceLabel} matched ${issueCount} items; splitting into ${formatSearchDateRange(left)} and ${formatSearchDateRange(right)}.`,
+          );
+          await collect(left);
+          await collect(right);
+          return;
+        }
+        truncatedRanges.push(sliceLabel);
+        logger.info(
+          `[GitHub] ${description} slice ${sliceLabel} matched ${issueCount} items but search is capped at ${SEARCH_RESULT_CAP}; results are truncated.`,
+        );
+      }
+
+      const nodes = response.search.nodes.filter(
+        (node): node is TNode => node !== null,
+      );
+      collected.push(...nodes);
+
+      const totalMatched = Math.min(issueCount, SEARCH_RESULT_CAP);
+      logger.debug(
+        `[GitHub] ${description} GraphQL ${sliceLabel} page ${page} fetched ${nodes.length} items (total so far ${collected.length}/${totalMatched}). Rate limit remaining ${response.rateLimit.remaining}.`,
+      );
+
+      if (
+        !response.search.pageInfo.hasNextPage ||
+        collected.length >= totalMatched
+      ) {
+        break;
+      }
+
+      afterCursor = response.search.pageInfo.endCursor;
+      if (!afterCursor) {
+        break;
+      }
+      page += 1;
+    }
+
+    aggregated.push(...collected);
+  };
+
+  await collect(range);
+  return { nodes: aggregated, truncatedRanges };
+}
+
+export async function fetchMergedPullRequestsGraphql(
+  octokit: Octokit,
+  config: QueueConfig,
+  sinceDate: string,
+  logger: IngestLogger,
+  budget: RateLimitBudget,
+  untilDate: string = new Date().toISOString().slice(0, 10),
+): Promise<{ prs: GraphqlMergedPrResult[]; truncatedRanges: string[] }> {
+  const { nodes, truncatedRanges } =
+    await fetchGraphqlSearchNodes<GraphqlMergedPrNode>(
+      octokit,
+      "merged history",
+      MERGED_SEARCH_GRAPHQL,
+      (range) =>
+        `${buildCombinedMergedSearchQuery(config, range)} sort:updated-desc`,
+      { from: sinceDate, to: untilDate },
       logger,
+      budget,
     );
 
-    const nodes = response.search.nodes.filter(
-      (node): node is GraphqlMergedPrNode => node !== null,
+  const prs = nodes.map<GraphqlMergedPrResult>((node) => ({
+    number: node.number,
+    title: node.title,
+    url: node.url,
+    createdAt: node.createdAt,
+    mergedAt: node.mergedAt,
+    labels: node.labels.nodes.map((label: GraphqlLabelNode) => label.name),
+    labelEvents: mapLabelEvents(node.timelineItems?.nodes ?? []),
+    author: node.author?.login ?? null,
+    mergedBy: node.mergedBy?.login ?? null,
+    mergeCommitSha: node.mergeCommit?.oid ?? null,
+    commitsTotal: node.commits?.totalCount ?? 0,
+    additions: node.additions,
+    deletions: node.deletions,
+    changedFiles: node.changedFiles,
+  }));
+  return { prs, truncatedRanges };
+}
+
+async function fetchClosedPullRequestsGraphql(
+  octokit: Octokit,
+  config: QueueConfig,
+  sinceDate: string,
+  logger: IngestLogger,
+  budget: RateLimitBudget,
+): Promise<{ prs: GraphqlClosedPrResult[]; truncatedRanges: string[] }> {
+  const { nodes, truncatedRanges } =
+    await fetchGraphqlSearchNodes<GraphqlClosedPrNode>(
+      octokit,
+      "closed history",
+      CLOSED_SEARCH_GRAPHQL,
+      (range) =>
+        `${buildCombinedClosedSearchQuery(config, range)} sort:updated-desc`,
+      { from: sinceDate, to: new Date().toISOString().slice(0, 10) },
+      logger,
+      budget,
     );
 
-    const pageResults = nodes.map<GraphqlMergedPrResult>((node) => ({
-      number: node.number,
-      title: node.title,
-      url: node.url,
-      createdAt: node.createdAt,
-      mergedAt: node.mergedAt,
-      labels: node.labels.nodes.map((label: GraphqlLabelNode) => label.name),
-      commitsTotal: node.commits?.totalCount ?? 0,
-      additions: node.additions,
-      deletions: node.deletions,
-      changedFiles: node.changedFiles,
-    }));
+  const prs = nodes.map<GraphqlClosedPrResult>((node) => ({
+    number: node.number,
+    title: node.title,
+    url: node.url,
+    createdAt: node.createdAt,
+    closedAt: node.closedAt,
+    labels: node.labels.nodes.map((label: GraphqlLabelNode) => label.name),
+  }));
+  return { prs, truncatedRanges };
+}
 
-    aggregated.push(...pageResults);
+/**
+ * Fetch every open PR in the repository with its labels and recent label events.
+ *
+ * @param octokit - Authenticated Octokit client.
+ * @param config - Queue configuration naming the repository.
+ * @param logger - Ingest logger for diagnostic output.
+ * @param budget - Rate-limit budget updated from each response's `rateLimit` block.
+ * @returns Open PRs ordered by creation date (oldest first).
+ */
+async function fetchOpenPullRequestsGraphql(
+  octokit: Octokit,
+  config: QueueConfig,
+  logger: IngestLogger,
+  budget: RateLimitBudget,
+): Promise<GraphqlOpenPrNode[]> {
+  const collected: GraphqlOpenPrNode[] = [];
+  let afterCursor: string | null = null;
+  let page = 1;
 
-    const totalMatched = Math.min(response.search.issueCount, 1000);
-    logger.debug(
-      `[GitHub] merged GraphQL page ${page} fetched ${pageResults.length} items (total so far ${aggregated.length}/${totalMatched}). Rate limit remaining ${response.rateLimit.remaining}.`,
+  while (true) {
+    const response: GraphqlOpenPullRequestsResponse = await executeWithRetries(
+      `open submissions GraphQL page ${page}`,
+      () =>
+        octokit.graphql<GraphqlOpenPullRequestsResponse>(
+          OPEN_PULL_REQUESTS_GRAPHQL,
+          {
+            owner: config.owner,
+            repo: config.repo,
+            first: GRAPHQL_SEARCH_PAGE_SIZE,
+            after: afterCursor ?? undefined,
+          },
+        ),
+      logger,
     );
+    budget.recordGraphql(response.rateLimit);
 
-    if (
-      !response.search.pageInfo.hasNextPage ||
-      aggregated.length >= totalMatched
-    ) {
-      break;
+    const connection = response.repository?.pullRequests;
+    if (!connection) {
+      throw new Error(
+        `Repository ${config.owner}/${config.repo} not found while listing open pull requests.`,
+      );
     }
+    const nodes = connection.nodes.filter(
+      (node): node is GraphqlOpenPrNode => node !== null,
+    );
+    collected.push(...nodes);
+    logger.debug(
+      `[GitHub] open submissions GraphQL page ${page} fetched ${nodes.length} items (total so far ${collected.length}). Rate limit remaining ${response.rateLimit.remaining}.`,
+    );
 
-    afterCursor = response.search.pageInfo.endCursor;
-    if (!afterCursor) {
+    afterCursor = connection.pageInfo.endCursor;
+    if (!connection.pageInfo.hasNextPage || !afterCursor) {
       break;
     }
     page += 1;
   }
 
-  return aggregated;
+  return collected;
 }
 
 const ISSUES_PAGE_SIZE = 100;
-const MERGED_HISTORY_LOOKBACK_MONTHS = 12;
+const HISTORY_LOOKBACK_MONTHS = 12;
+const MERGED_RECONCILE_INTERVAL_HOURS = 24;
+// GraphQL points to keep in reserve before re-fetching a full year of history.
+const FULL_MERGED_REFRESH_GRAPHQL_RESERVE = 500;
+const FULL_CLOSED_REFRESH_GRAPHQL_RESERVE = 200;
+// One REST call per PR; the cache fills over several runs on first deploy.
+const MAX_MANIFEST_LOOKUPS_PER_RUN = 50;
+const MANIFEST_LOOKUP_CORE_RESERVE = 1000;
+// Roughly one point per 100 open PRs; the rest covers a large backlog.
+const OPEN_SUBMISSIONS_GRAPHQL_RESERVE = 100;
 
 interface ReadyForReviewFetchResult {
   prs: GitHubPr[];
@@ -323,12 +856,43 @@ interface ReadyForReviewFetchResult {
 
 async function hasNewMergedPullRequests(
   octokit: Octokit,
+  config: QueueConfig,
+  since: string,
+  logger: IngestLogger,
+): Promise<boolean> {
+  return hasSearchResults(
+    octokit,
+    "merged",
+    buildMergedTripwireQuery(config, since),
+    since,
+    logger,
+  );
+}
+
+async function hasNewClosedPullRequests(
+  octokit: Octokit,
+  config: QueueConfig,
+  since: string,
+  logger: IngestLogger,
+): Promise<boolean> {
+  return hasSearchResults(
+    octokit,
+    "closed",
+    buildClosedTripwireQuery(config, since),
+    since,
+    logger,
+  );
+}
+
+async function hasSearchResults(
+  octokit: Octokit,
+  description: string,
+  query: string,
   since: string,
   logger: IngestLogger,
 ): Promise<boolean> {
-  const query = buildMergedTripwireQuery(since);
   const response = await executeWithRetries(
-    "merged tripwire search",
+    `${description} tripwire search`,
     () =>
       octokit.request("GET /search/issues", {
         q: query,
@@ -342,21 +906,22 @@ async function hasNewMergedPullRequests(
   const { total_count } = response.data as { total_count: number };
   const changed = total_count > 0;
   logger.debug(
-    `[GitHub] merged tripwire since ${since}: ${changed ? "changes detected" : "no changes"}.`,
+    `[GitHub] ${description} tripwire since ${since}: ${changed ? "changes detected" : "no changes"}.`,
   );
   return changed;
 }
 
 async function fetchReadyForReviewPullRequests(
   octokit: Octokit,
+  config: QueueConfig,
   logger: IngestLogger,
   ifNoneMatch: string | null,
 ): Promise<ReadyForReviewFetchResult> {
   const baseRequest = {
-    owner: GITHUB_OWNER,
-    repo: GITHUB_REPO,
+    owner: config.owner,
+    repo: config.repo,
     state: "open" as const,
-    labels: READY_FOR_REVIEW_LABEL,
+    labels: config.readyLabel,
     per_page: ISSUES_PAGE_SIZE,
     sort: "updated" as const,
     direction: "desc" as const,
@@ -429,79 +994,220 @@ async function fetchReadyForReviewPullRequests(
 }
 
 /**
- * Determine whether a PR belongs to the plugin or theme review queue.
- *
- * GitHub PR labels contain the data we need; this helper normalises the value
- * for downstream consumers. If no recognised label is present we fall back to
- * `"unknown"` which is excluded from queue totals.
+ * Read the entry a submission PR adds to its type's manifest file.
  *
- * @param pr - The GitHub search result to inspect.
- * @returns The queue type label if present, otherwise `"unknown"`.
+ * @param octokit - Authenticated Octokit client.
+ * @param config - Queue configuration naming each type's manifest file.
+ * @param pr - PR number and queue type.
+ * @param logger - Ingest logger for diagnostic output.
+ * @returns The added entry, or `null` if the PR adds none.
  */
-function resolveTypeFromLabels(labels: string[]): ReviewAssetTypeWithFallback {
-  const typeLabel = labels.find((label) =>
-    REVIEW_TYPES.includes(label as ReviewAssetType),
+async function fetchSubmissionManifest(
+  octokit: Octokit,
+  config: QueueConfig,
+  pr: { id: number; type: string },
+  logger: IngestLogger,
+): Promise<SubmissionManifest | null> {
+  const manifestFile = config.types.find(
+    (type) => type.id === pr.type,
+  )?.manifestFile;
+  if (!manifestFile) return null;
+
+  const response = await executeWithRetries(
+    `files of #${pr.id}`,
+    () =>
+      octokit.request("GET /repos/{owner}/{repo}/pulls/{pull_number}/files", {
+        owner: config.owner,
+        repo: config.repo,
+        pull_number: pr.id,
+        per_page: 100,
+      }),
+    logger,
+  );
+  const file = response.data.find((entry) => entry.filename === manifestFile);
+  return file?.patch ? parseManifestEntry(file.patch) : null;
+}
+
+function resolvePrType(pr: GitHubPr, config: QueueConfig): string {
+  return resolveTypeFromLabels(
+    pr.labels.map((label) => label.name),
+    config,
   );
-  return (typeLabel as ReviewAssetTypeWithFallback) ?? "unknown";
 }
 
-function resolvePrType(pr: GitHubPr): ReviewAssetTypeWithFallback {
-  return resolveTypeFromLabels(pr.labels.map((label) => label.name));
+function formatRepoQualifier(config: QueueConfig): string {
+  return `repo:${config.owner}/${config.repo}`;
+}
+
+function formatTypeLabelQualifier(config: QueueConfig): string {
+  return `label:${config.types.map((type) => JSON.stringify(type.label)).join(",")}`;
 }
 
 /**
  * Build the GitHub search query for merged items after a given date.
  *
+ * @param config - Queue configuration naming the repository.
  * @param since - ISO date string (YYYY-MM-DD) to bound the merged date filter.
  * @returns A tripwire query detecting any merged PRs after the given date.
  */
-function buildMergedTripwireQuery(since: string): string {
-  return `is:pr repo:${GITHUB_OWNER}/${GITHUB_REPO} is:merged merged:>${since}`;
+function buildMergedTripwireQuery(config: QueueConfig, since: string): string {
+  return `is:pr ${formatRepoQualifier(config)} is:merged merged:>${since}`;
 }
 
 /**
- * Build the GitHub search query for merged items after a given date for a specific queue.
+ * Build the GitHub search query for queue PRs merged within a date range.
  *
- * @param since - ISO date string (YYYY-MM-DD) to bound the merged date filter.
- * @param type - The queue label (plugin or theme).
+ * @param config - Queue configuration naming the repository and type labels.
+ * @param range - Inclusive date range (YYYY-MM-DD) bounding the merged date filter.
  * @returns A ready-to-run GitHub search string.
  */
-function buildCombinedMergedSearchQuery(since: string): string {
-  return `is:pr repo:${GITHUB_OWNER}/${GITHUB_REPO} is:merged merged:>${since} label:plugin,theme`;
+function buildCombinedMergedSearchQuery(
+  config: QueueConfig,
+  range: SearchDateRange,
+): string {
+  return `is:pr ${formatRepoQualifier(config)} is:merged merged:${formatSearchDateRange(range)} ${formatTypeLabelQualifier(config)}`;
+}
+
+/**
+ * Build the GitHub search query detecting PRs closed without merge after a given date.
+ *
+ * @param config - Queue configuration naming the repository and type labels.
+ * @param since - ISO timestamp bounding the closed date filter.
+ * @returns A tripwire query detecting unmerged queue closures after the given date.
+ */
+function buildClosedTripwireQuery(config: QueueConfig, since: string): string {
+  return `is:pr ${formatRepoQualifier(config)} is:closed is:unmerged closed:>${since} ${formatTypeLabelQualifier(config)}`;
+}
+
+/**
+ * Build the GitHub search query for queue PRs closed without merge.
+ *
+ * @param config - Queue configuration naming the repository and type labels.
+ * @param range - Inclusive date range (YYYY-MM-DD) bounding the closed date filter.
+ * @returns A ready-to-run GitHub search string.
+ */
+function buildCombinedClosedSearchQuery(
+  config: QueueConfig,
+  range: SearchDateRange,
+): string {
+  return `is:pr ${formatRepoQualifier(config)} is:closed is:unmerged closed:${formatSearchDateRange(range)} ${formatTypeLabelQualifier(config)}`;
 }
 
 /**
  * Transform open pull requests from the GitHub API into queue-ready rows.
  *
  * @param prs - Raw GitHub search results representing open PRs.
+ * @param config - Queue configuration used to classify PRs.
+ * @param quality - Optional collector notified of PRs without a type label.
  * @returns Sorted queue entries ordered by creation date (oldest first).
  */
-function buildOpenPrPayload(prs: GitHubPr[]): PullRequest[] {
+function buildOpenPrPayload(
+  prs: GitHubPr[],
+  config: QueueConfig,
+  quality?: DataQualityCollector,
+): PullRequest[] {
   const mapped = prs
     .map<PullRequest>((pr) => ({
       id: pr.number,
       title: pr.title,
       url: pr.html_url,
-      type: resolvePrType(pr),
+      type: resolvePrType(pr, config),
       createdAt: pr.created_at,
     }))
-    .filter((pr) => pr.type !== "unknown");
+    .filter((pr) => {
+      if (pr.type === "unknown") {
+        quality?.unlabeled("open", pr, pr.createdAt);
+        return false;
+      }
+      return true;
+    });
 
   return mapped.sort((a, b) => {
     return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
   });
 }
 
+/**
+ * Transform every open pull request into a submission row with its review state.
+ *
+ * @param prs - Open PRs from {@link fetchOpenPullRequestsGraphql}.
+ * @param config - Queue configuration used to classify PRs and name state labels.
+ * @param now - ISO timestamp the time in state is measured to.
+ * @returns Submissions with a known queue type, ordered by creation date (oldest first).
+ */
+function buildOpenSubmissionPayload(
+  prs: GraphqlOpenPrNode[],
+  config: QueueConfig,
+  now: string,
+): OpenSubmission[] {
+  const stateLabels = resolveStateLabels(config);
+  return prs
+    .map<OpenSubmission>((pr) => {
+      const labels = pr.labels.nodes.map((label) => label.name);
+      return {
+        id: pr.number,
+        title: pr.title,
+        url: pr.url,
+        type: resolveTypeFromLabels(labels, config),
+        createdAt: pr.createdAt,
+        ...resolveReviewState(
+          labels,
+          mapLabelEvents(pr.timelineItems?.nodes ?? []),
+          stateLabels,
+          pr.createdAt,
+          now,
+        ),
+        labels,
+      };
+    })
+    .filter((pr) => pr.type !== "unknown")
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+}
+
+/**
+ * Map each open PR that has carried the readiness label to the first time it
+ * was applied, as far back as the fetched label events reach.
+ *
+ * @param prs - Open PRs from {@link fetchOpenPullRequestsGraphql}.
+ * @param readyLabel - Name of the label marking a PR as ready for review.
+ * @param now - ISO timestamp closing any interval still open.
+ */
+function mapReadyForReviewAt(
+  prs: GraphqlOpenPrNode[],
+  readyLabel: string,
+  now: string,
+): Map<number, string> {
+  const readyAt = new Map<number, string>();
+  for (const pr of prs) {
+    const { readyForReviewAt } = summariseReviewQueueTimeline(
+      mapLabelEvents(pr.timelineItems?.nodes ?? []),
+      now,
+      readyLabel,
+    );
+    if (readyForReviewAt) {
+      readyAt.set(pr.number, readyForReviewAt);
+    }
+  }
+  return readyAt;
+}
+
 /**
  * Transform merged pull requests returned by the GraphQL search into queue history rows.
  *
  * @param prs - GraphQL search results representing merged PRs.
+ * @param config - Queue configuration used to classify PRs.
  * @param logger - Ingest logger for diagnostic output.
+ * @param quality - Optional collector notified of ghost merges.
  * @returns Sorted queue history entries ordered by merge date (oldest first).
  */
-function buildMergedPrPayload(
+export function buildMergedPrPayload(
   prs: GraphqlMergedPrResult[],
+  config: QueueConfig,
   logger: IngestLogger,
+  quality?: DataQualityCollector,
 ): MergedPullRequest[] {
   const seen = new Set<number>();
   const ghostNumbers: number[] = [];
@@ -516,6 +1222,12 @@ function buildMergedPrPayload(
     .filter((pr) => {
       if (pr.commitsTotal === 0 || pr.changedFiles === 0) {
         ghostNumbers.push(pr.number);
+        quality?.ghostMerge(
+          { id: pr.number, title: pr.title, url: pr.url },
+          pr.mergedAt,
+          pr.commitsTotal,
+          pr.changedFiles,
+        );
         return false;
       }
       return true;
@@ -525,10 +1237,15 @@ function buildMergedPrPayload(
       const mergedAtIso = pr.mergedAt;
       const mergedAt = new Date(mergedAtIso);
       const daysToMerge = Math.round(
-        (mergedAt.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24),
+        (mergedAt.getTime() - createdAt.getTime()) / DAY_MS,
       );
 
-      const type = resolveTypeFromLabels(pr.labels);
+      const type = resolveTypeFromLabels(pr.labels, config);
+      const reviewQueue = summariseReviewQueueTimeline(
+        pr.labelEvents,
+        mergedAtIso,
+        config.readyLabel,
+      );
 
       return {
         id: pr.number,
@@ -538,6 +1255,13 @@ function buildMergedPrPayload(
         createdAt: pr.createdAt,
         mergedAt: mergedAtIso,
         daysToMerge,
+        ...reviewQueue,
+        author: pr.author,
+        mergedBy: pr.mergedBy,
+        mergeCommitSha: pr.mergeCommitSha,
+        additions: pr.additions,
+        deletions: pr.deletions,
+        changedFiles: pr.changedFiles,
       } satisfies MergedPullRequest;
     });
 
@@ -557,74 +1281,188 @@ function buildMergedPrPayload(
   });
 }
 
-function computeLatestMergedAt(merged: MergedPullRequest[]): string | null {
+/**
+ * Transform PRs closed without merge into closure history rows.
+ *
+ * @param prs - GraphQL search results representing unmerged closures.
+ * @param config - Queue configuration used to classify PRs.
+ * @param quality - Optional collector notified of PRs without a type label.
+ * @returns Closure entries with a known queue type, ordered by closure date (oldest first).
+ */
+function buildClosedPrPayload(
+  prs: GraphqlClosedPrResult[],
+  config: QueueConfig,
+  quality?: DataQualityCollector,
+): ClosedPullRequest[] {
+  const seen = new Set<number>();
+  const mapped = prs
+    .filter((pr) => {
+      if (seen.has(pr.number)) {
+        return false;
+      }
+      seen.add(pr.number);
+      return true;
+    })
+    .map<ClosedPullRequest>((pr) => ({
+      id: pr.number,
+      title: pr.title,
+      url: pr.url,
+      type: resolveTypeFromLabels(pr.labels, config),
+      createdAt: pr.createdAt,
+      closedAt: pr.closedAt,
+      daysOpen: Math.max(
+        0,
+        Math.round(
+          (new Date(pr.closedAt).getTime() - new Date(pr.createdAt).getTime()) /
+            DAY_MS,
+        ),
+      ),
+      labels: pr.labels,
+    }))
+    .filter((pr) => {
+      if (pr.type === "unknown") {
+        quality?.unlabeled("closed", pr, pr.closedAt);
+        return false;
+      }
+      return true;
+    });
+
+  return mapped.sort((a, b) => {
+    return new Date(a.closedAt).getTime() - new Date(b.closedAt).getTime();
+  });
+}
+
+function computeLatestTimestamp<T>(
+  rows: T[],
+  select: (row: T) => string,
+): string | null {
   let latest: string | null = null;
-  for (const pr of merged) {
-    if (
-      !latest ||
-      new Date(pr.mergedAt).getTime() > new Date(latest).getTime()
-    ) {
-      latest = pr.mergedAt;
+  for (const row of rows) {
+    const value = select(row);
+    if (!latest || new Date(value).getTime() > new Date(latest).getTime()) {
+      latest = value;
     }
   }
   return latest;
 }
 
 /**
- * Produce a deterministic hash for the given string content.
- *
- * Cloudflare Workers expose the Web Crypto API, enabling us to generate a
- * SHA-256 hex digest equal to what browsers or Node produce.
+ * Compute the ISO date (YYYY-MM-DD) at the start of the history lookback window.
+ */
+export function computeLookbackStartDate(now: Date = new Date()): string {
+  const since = new Date(now);
+  since.setMonth(since.getMonth() - HISTORY_LOOKBACK_MONTHS);
+  return since.toISOString().slice(0, 10);
+}
+
+/**
+ * Drop rows whose timestamp falls before the history lookback window.
+ */
+function trimToLookbackWindow<T>(rows: T[], select: (row: T) => string): T[] {
+  const windowStart = new Date(computeLookbackStartDate()).getTime();
+  return rows.filter((row) => new Date(select(row)).getTime() >= windowStart);
+}
+
+/**
+ * Convert a watermark timestamp into a search date filter.
  *
- * @param value - The input string to hash.
- * @returns Hex-encoded SHA-256 digest.
+ * Search date qualifiers are evaluated per day, so we step back one day to
+ * guard against timezone truncation; duplicates are removed when merging.
  */
-async function hashString(value: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(value);
-  const digest = await crypto.subtle.digest("SHA-256", data);
-  const bytes = Array.from(new Uint8Array(digest));
-  return bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+function toSearchDateFilter(watermarkIso: string): string {
+  const baseline = new Date(watermarkIso);
+  baseline.setUTCDate(baseline.getUTCDate() - 1);
+  return baseline.toISOString().slice(0, 10);
+}
+
+function isReconciliationDue(reconciledAt: string | null): boolean {
+  if (!reconciledAt) {
+    return true;
+  }
+  const elapsed = Date.now() - new Date(reconciledAt).getTime();
+  return (
+    Number.isNaN(elapsed) ||
+    elapsed >= MERGED_RECONCILE_INTERVAL_HOURS * 60 * 60 * 1000
+  );
 }
 
 /**
- * Fetch the latest queue data from GitHub and persist normalised snapshots.
+ * Merge freshly fetched merged PRs into the cached history.
  *
- * The ingest run retrieves open and recently merged PRs for the Obsidian
- * release queues, projects them into consistent payloads, and stores a summary
- * alongside the full details in KV. Rewrites of the larger details record only
- * occur when the content hash changes to minimise storage churn.
+ * Entries are keyed by PR number with the fresh copy winning, and the result
+ * is re-sorted by merge date (oldest first).
  *
- * @param env - Worker bindings including KV namespace and GitHub App secrets.
+ * @param cached - Previously stored merged history.
+ * @param recent - Newly fetched merged history rows.
+ * @returns Combined history without duplicates.
  */
-export async function ingest(
-  env: Env,
-  options: IngestOptions = {},
-): Promise<IngestResult> {
-  const logger = createIngestLogger();
-  let openDatasetUpdated = false;
-  let mergedDatasetUpdated = false;
-  let summaryUpdated = false;
-  const force = options.force === true;
-  const datasetBaseUrl = normalizeBaseUrl(env.PUBLIC_BASE_URL);
+export function mergeMergedHistory(
+  cached: MergedPullRequest[],
+  recent: MergedPullRequest[],
+): MergedPullRequest[] {
+  const byNumber = new Map<number, MergedPullRequest>();
+  for (const pr of cached) {
+    byNumber.set(pr.id, pr);
+  }
+  for (const pr of recent) {
+    byNumber.set(pr.id, pr);
+  }
+  return Array.from(byNumber.values()).sort((a, b) => {
+    return new Date(a.mergedAt).getTime() - new Date(b.mergedAt).getTime();
+  });
+}
 
+/**
+ * Whether two configurations select the same pull requests from GitHub.
+ *
+ * Display-only settings (names, colours) may change without invalidating the
+ * cached datasets; anything affecting queries or classification may not.
+ */
+function isSameQueueSource(previous: QueueConfig, next: QueueConfig): boolean {
+  const describe = (config: QueueConfig) =>
+    JSON.stringify([
+      config.owner,
+      config.repo,
+      config.readyLabel,
+      config.types.map((type) => [type.id, type.label]),
+    ]);
+  return describe(previous) === describe(next);
+}
+
+/**
+ * Create an Octokit client that talks to GitHub through a data source.
+ *
+ * The live source authenticates as the GitHub App installation; record and
+ * replay sources reuse the same client so hooks and error handling match.
+ * Every response updates the rate-limit budget and is logged at debug level.
+ *
+ * @param source - Transport and credentials for GitHub requests.
+ * @param logger - Ingest logger for diagnostic output.
+ * @param budget - Rate-limit budget fed from response headers.
+ */
+export function createGitHubClient(
+  source: QueueDataSource,
+  logger: IngestLogger,
+  budget: RateLimitBudget,
+): Octokit {
   const octokit = new Octokit({
     request: {
       // Default headers for every request
       headers: {
         ...GH_HEADERS_BASE,
-        // authorization: `Bearer ${token}`,
       },
-      // Workers runtime already has global fetch; Octokit will use it.
+      fetch: (url: string, init: RequestInit) => source.fetch(url, init),
     },
   });
 
   octokit.hook.before("request", async (options) => {
-    const token = await getGitHubInstallationToken(env);
-    options.headers = {
-      ...(options.headers || {}),
-      authorization: `Bearer ${token}`,
-    };
+    const token = await source.getToken();
+    if (token !== null) {
+      options.headers = {
+        ...(options.headers || {}),
+        authorization: `Bearer ${token}`,
+      };
+    }
   });
 
   octokit.hook.error("request", async (error) => {
@@ -632,13 +1470,14 @@ export async function ingest(
       error instanceof RequestError &&
       (error.status === 401 || error.status === 403)
     ) {
-      invalidateGitHubInstallationToken();
+      source.invalidateToken();
     }
     throw error;
   });
 
-  // Log rate limit info after each request for debugging
+  // Track rate limit info after each request and log it for debugging
   octokit.hook.after("request", async (response, options) => {
+    budget.recordHeaders(response.headers);
     const remain = response.headers["x-ratelimit-remaining"];
     const used = response.headers["x-ratelimit-used"];
     const reset = response.headers["x-ratelimit-reset"];
@@ -649,17 +1488,198 @@ export async function ingest(
     }
   });
 
+  return octokit;
+}
+
+function toIngestRun(
+  result: IngestResult,
+  trigger: IngestTrigger,
+  startedAt: Date,
+  finishedAt: Date,
+): IngestRun {
+  return {
+    id: result.runId,
+    trigger,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: Math.max(0, finishedAt.getTime() - startedAt.getTime()),
+    ok: result.ok,
+    forced: result.forced,
+    message: result.message,
+    error: result.error ?? null,
+    phases: {
+      summaryUpdated: result.summaryUpdated ?? false,
+      openDatasetUpdated: result.openDatasetUpdated ?? false,
+      mergedDatasetUpdated: result.mergedDatasetUpdated ?? false,
+      closedDatasetUpdated: result.closedDatasetUpdated ?? false,
+      mergedRefreshMode: result.mergedRefreshMode ?? null,
+      searchTruncated: result.searchTruncated,
+      truncatedSearchRanges: result.truncatedSearchRanges,
+    },
+    datasetVersions: {
+      openQueue: result.openDatasetVersion ?? null,
+      mergedHistory: result.mergedDatasetVersion ?? null,
+      closedHistory: result.closedDatasetVersion ?? null,
+    },
+    rateLimit: result.rateLimit ?? null,
+    logs: result.logs,
+  };
+}
+
+/**
+ * Fetch the latest queue data from GitHub and persist normalised snapshots.
+ *
+ * The ingest run retrieves open and recently merged PRs for the Obsidian
+ * release queues, projects them into consistent payloads, and stores a summary
+ * alongside the full details in KV. Rewrites of the larger details record only
+ * occur when the content hash changes to minimise storage churn. Every run,
+ * successful or not, is recorded in the ingest run history.
+ *
+ * A dry run performs every fetch and computation but writes nothing: the
+ * would-be summary and per-dataset diffs are returned under `dryRun`, and the
+ * run neither takes the lock nor appears in the run history.
+ *
+ * Runs hold the ingest lock for their duration, retrying for `lockWaitMs`
+ * when it is taken. When another run still holds a live lease, nothing is
+ * fetched or written and the result reports `lock.status` `"blocked"` together
+ * with the holder's run id. Webhook events queued during the run are applied
+ * before the lock is released.
+ *
+ * @param env - Worker bindings including KV namespace and GitHub App secrets.
+ * @param options - Force flag, trigger recorded with the run and data source.
+ */
+export async function ingest(
+  env: Env,
+  options: IngestOptions = {},
+): Promise<IngestResult> {
+  const startedAt = new Date();
+  const runId = crypto.randomUUID();
+  const trigger = options.trigger ?? "manual";
+  const forced = options.force === true;
+
+  if (options.dryRun) {
+    return executeIngest(env, options, runId);
+  }
+
+  const lock = options.lockWaitMs
+    ? await waitForIngestLock(env, trigger, runId, {
+        waitMs: options.lockWaitMs,
+      })
+    : await acquireIngestLock(env, trigger, runId);
+  if (lock.status === "blocked") {
+    const message = `[Ingest] Run ${lock.holder.runId} (${lock.holder.owner}) is still in progress; skipping.`;
+    console.info(message);
+    return {
+      runId,
+      ok: false,
+      message,
+      logs: [{ level: "info", message }],
+      searchTruncated: false,
+      truncatedSearchRanges: [],
+      forced,
+      lock,
+    };
+  }
+
+  let result: IngestResult;
   try {
+    result = { ...(await executeIngest(env, options, runId)), lock };
+    try {
+      const applied = await applyQueuedWebhookEvents(env);
+      if (applied > 0) {
+        console.info(`[Ingest] Applied ${applied} queued webhook event(s).`);
+      }
+    } catch (error) {
+      console.error("[Ingest] Failed to apply queued webhook events:", error);
+    }
+  } finally {
+    try {
+      await releaseIngestLock(env, runId);
+    } catch (error) {
+      console.error("[Ingest] Failed to release ingest lock:", error);
+    }
+  }
+
+  try {
+    await recordIngestRun(
+      env,
+      toIngestRun(result, trigger, startedAt, new Date()),
+    );
+  } catch (error) {
+    console.error("[Ingest] Failed to record ingest run history:", error);
+  }
+
+  return result;
+}
+
+async function executeIngest(
+  env: Env,
+  options: IngestOptions,
+  runId: string,
+): Promise<IngestResult> {
+  const logger = createIngestLogger();
+  let openDatasetUpdated = false;
+  let mergedDatasetUpdated = false;
+  let closedDatasetUpdated = false;
+  let summaryUpdated = false;
+  const truncatedSearchRanges: string[] = [];
+  let force = options.force === true;
+  const forced = force;
+  const dryRun = options.dryRun === true;
+  const datasetBaseUrl = normalizeBaseUrl(env.PUBLIC_BASE_URL);
+  const budget = createRateLimitBudget();
+  const quality = createDataQualityCollector();
+
+  const octokit = createGitHubClient(
+    options.dataSource ?? createLiveDataSource(env),
+    logger,
+    budget,
+  );
+  if (options.dataSource) {
+    logger.info(`[Ingest] Using ${options.dataSource.name} data source.`);
+  }
+
+  try {
+    const config = await loadQueueConfig(env);
     const previousSummary = await readQueueSummary(env);
+    const sourceChanged =
+      previousSummary !== null &&
+      !isSameQueueSource(previousSummary.queue, config);
+    if (sourceChanged && !force) {
+      logger.info(
+        "[Ingest] Queue configuration changed; bypassing cache tripwires.",
+      );
+      force = true;
+    }
     const previousOpenPointer = previousSummary?.datasets?.openQueue ?? null;
     const previousMergedPointer =
       previousSummary?.datasets?.mergedHistory ?? null;
+    const previousClosedPointer =
+      previousSummary?.datasets?.closedHistory ?? null;
+    const previousQualityPointer =
+      previousSummary?.datasets?.dataQuality ?? null;
+    const previousSubmissionsPointer =
+      previousSummary?.datasets?.openSubmissions ?? null;
+    const previousHistoryPointer =
+      previousSummary?.datasets?.queueHistory ?? null;
 
     if (force) {
       logger.info(
         "[Ingest] Force refresh requested; bypassing cache tripwires.",
       );
     }
+    if (dryRun) {
+      logger.info("[Ingest] Dry run; no datasets or summary will be written.");
+    }
+
+    try {
+      await budget.refresh(octokit);
+    } catch (error) {
+      logger.error(
+        "[Ingest] Failed to read GitHub rate limits; continuing without a budget.",
+        error,
+      );
+    }
 
     const previousPage1ETag = force
       ? null
@@ -668,6 +1688,7 @@ export async function ingest(
     logger.info("[Ingest] Fetching Ready for review pull requests...");
     let openResult = await fetchReadyForReviewPullRequests(
       octokit,
+      config,
       logger,
       previousPage1ETag,
     );
@@ -676,7 +1697,12 @@ export async function ingest(
       logger.info(
         "[Ingest] Received 304 but no cached open dataset; retrying without ETag.",
       );
-      openResult = await fetchReadyForReviewPullRequests(octokit, logger, null);
+      openResult = await fetchReadyForReviewPullRequests(
+        octokit,
+        config,
+        logger,
+        null,
+      );
     }
 
     let page1ETag = openResult.page1ETag ?? previousPage1ETag ?? null;
@@ -692,154 +1718,542 @@ export async function ingest(
           "Open queue unchanged but cached dataset unavailable in KV.",
         );
       }
-      openPrs = cached;
+      // Projections are recomputed below; dropping them keeps the row layout
+      // identical to a fresh fetch so an unchanged queue keeps its version.
+      openPrs = cached.map(
+        ({
+          queuePosition: _queuePosition,
+          queueSize: _queueSize,
+          projectedMerge: _projectedMerge,
+          ...pr
+        }) => pr,
+      );
     } else {
-      openPrs = buildOpenPrPayload(openResult.prs);
+      openPrs = buildOpenPrPayload(openResult.prs, config, quality);
       page1ETag = openResult.page1ETag;
     }
 
-    let mergedNeedsRefresh = force || !previousMergedPointer;
     const previousMergedWatermark = previousSummary?.latestMergedAt ?? null;
-    if (!mergedNeedsRefresh) {
-      if (!previousMergedWatermark) {
-        logger.debug("[Ingest] Missing merged watermark; forcing refresh.");
-        mergedNeedsRefresh = true;
-      } else {
-        mergedNeedsRefresh = await hasNewMergedPullRequests(
+    const previousReconciledAt = previousSummary?.mergedReconciledAt ?? null;
+    let mergedRefreshMode: MergedRefreshMode = "cached";
+    if (force || !previousMergedPointer) {
+      mergedRefreshMode = "full";
+    } else if (!previousMergedWatermark) {
+      logger.debug("[Ingest] Missing merged watermark; forcing refresh.");
+      mergedRefreshMode = "full";
+    } else if (isReconciliationDue(previousReconciledAt)) {
+      logger.info(
+        "[Ingest] Periodic merged history reconciliation due; running full refresh.",
+      );
+      mergedRefreshMode = "full";
+    } else if (
+      await hasNewMergedPullRequests(
+        octokit,
+        config,
+        previousMergedWatermark,
+        logger,
+      )
+    ) {
+      mergedRefreshMode = "incremental";
+    }
+
+    if (
+      mergedRefreshMode === "full" &&
+      !budget.canAfford("graphql", FULL_MERGED_REFRESH_GRAPHQL_RESERVE)
+    ) {
+      const remaining = budget.remaining("graphql");
+      if (!previousMergedPointer || !previousMergedWatermark || sourceChanged) {
+        throw new Error(
+          `GraphQL budget too low for a full merged refresh (${remaining} points remaining) and no reusable cache.`,
+        );
+      }
+      budget.defer("merged-full-refresh");
+      logger.info(
+        `[Ingest] GraphQL budget low (${remaining} points remaining); deferring full merged refresh.`,
+      );
+      mergedRefreshMode = (await hasNewMergedPullRequests(
+        octokit,
+        config,
+        previousMergedWatermark,
+        logger,
+      ))
+        ? "incremental"
+        : "cached";
+    }
+
+    let mergedPrs: MergedPullRequest[] | null = null;
+    let mergedReconciledAt = previousReconciledAt;
+    if (mergedRefreshMode !== "full") {
+      const cached = await readDatasetJSON<MergedPullRequest[]>(
+        env.QUEUE_DATA,
+        MERGED_HISTORY_DATASET,
+      );
+      if (!cached) {
+        logger.info(
+          "[Ingest] Cached merged dataset unavailable; falling back to full refresh.",
+        );
+        mergedRefreshMode = "full";
+      } else if (
+        mergedRefreshMode === "incremental" &&
+        previousMergedWatermark
+      ) {
+        const incrementalSince = toSearchDateFilter(previousMergedWatermark);
+        logger.info(
+          `[Ingest] Fetching merged history since ${incrementalSince} (incremental)...`,
+        );
+        const mergedRecent = await fetchMergedPullRequestsGraphql(
           octokit,
-          previousMergedWatermark,
+          config,
+          incrementalSince,
           logger,
+          budget,
         );
+        truncatedSearchRanges.push(...mergedRecent.truncatedRanges);
+        const recentPayload = buildMergedPrPayload(
+          mergedRecent.prs,
+          config,
+          logger,
+          quality,
+        );
+        mergedPrs = mergeMergedHistory(cached, recentPayload);
+        logger.info(
+          `[Ingest] Merged ${recentPayload.length} recent PR(s) into cached history.`,
+        );
+      } else {
+        logger.info("[Ingest] Merged history unchanged; reusing cached data.");
+        mergedPrs = cached;
       }
     }
 
-    let mergedPrs: MergedPullRequest[];
-    if (mergedNeedsRefresh) {
+    if (mergedRefreshMode === "full" || !mergedPrs) {
       logger.info("[Ingest] Fetching merged history...");
-      const mergedSince = new Date();
-      mergedSince.setMonth(
-        mergedSince.getMonth() - MERGED_HISTORY_LOOKBACK_MONTHS,
-      );
-      const mergedQueryDate = mergedSince.toISOString().slice(0, 10);
       const mergedCombined = await fetchMergedPullRequestsGraphql(
         octokit,
-        mergedQueryDate,
+        config,
+        computeLookbackStartDate(),
         logger,
+        budget,
       );
-      mergedPrs = buildMergedPrPayload(mergedCombined, logger);
+      truncatedSearchRanges.push(...mergedCombined.truncatedRanges);
+      mergedPrs = buildMergedPrPayload(
+        mergedCombined.prs,
+        config,
+        logger,
+        quality,
+      );
+      mergedReconciledAt = new Date().toISOString();
+    }
+
+    mergedPrs = trimToLookbackWindow(mergedPrs, (pr) => pr.mergedAt);
+
+    let closedNeedsRefresh = force || !previousClosedPointer;
+    const previousClosedWatermark = previousSummary?.latestClosedAt ?? null;
+    if (!closedNeedsRefresh) {
+      if (!previousClosedWatermark) {
+        logger.debug("[Ingest] Missing closed watermark; forcing refresh.");
+        closedNeedsRefresh = true;
+      } else {
+        closedNeedsRefresh = await hasNewClosedPullRequests(
+          octokit,
+          config,
+          previousClosedWatermark,
+          logger,
+        );
+      }
+    }
+
+    if (
+      closedNeedsRefresh &&
+      !budget.canAfford("graphql", FULL_CLOSED_REFRESH_GRAPHQL_RESERVE)
+    ) {
+      const remaining = budget.remaining("graphql");
+      if (!previousClosedPointer || sourceChanged) {
+        throw new Error(
+          `GraphQL budget too low for a closed history refresh (${remaining} points remaining) and no reusable cache.`,
+        );
+      }
+      budget.defer("closed-refresh");
+      logger.info(
+        `[Ingest] GraphQL budget low (${remaining} points remaining); deferring closed history refresh.`,
+      );
+      closedNeedsRefresh = false;
+    }
+
+    let closedPrs: ClosedPullRequest[];
+    if (closedNeedsRefresh) {
+      logger.info("[Ingest] Fetching closed-without-merge history...");
+      const closedCombined = await fetchClosedPullRequestsGraphql(
+        octokit,
+        config,
+        computeLookbackStartDate(),
+        logger,
+        budget,
+      );
+      truncatedSearchRanges.push(...closedCombined.truncatedRanges);
+      closedPrs = buildClosedPrPayload(closedCombined.prs, config, quality);
     } else {
-      logger.info("[Ingest] Merged history unchanged; reusing cached data.");
-      const cached = await readDatasetJSON<MergedPullRequest[]>(
-        env.QUEUE_DATA,
-        MERGED_HISTORY_DATASET,
+      logger.info("[Ingest] Closed history unchanged; reusing cached data.");
+      const cached = closedQueueDatasetSchema.safeParse(
+        await readDatasetJSON<unknown>(env.QUEUE_DATA, CLOSED_HISTORY_DATASET),
       );
-      if (!cached) {
-        throw new Error("Merged dataset expected but not found in KV storage.");
+      if (!cached.success) {
+        throw new Error(
+          "Closed dataset expected but missing or invalid in KV storage.",
+        );
       }
-      mergedPrs = cached;
+      closedPrs = trimToLookbackWindow(cached.data, (pr) => pr.closedAt);
     }
 
-    const latestMergedAt = computeLatestMergedAt(mergedPrs);
-    const nowIso = new Date().toISOString();
+    let openSubmissions: OpenSubmission[] | null = null;
+    let readyForReviewAt: Map<number, string> | null = null;
+    if (budget.canAfford("graphql", OPEN_SUBMISSIONS_GRAPHQL_RESERVE)) {
+      logger.info("[Ingest] Fetching all open submissions...");
+      const openNodes = await fetchOpenPullRequestsGraphql(
+        octokit,
+        config,
+        logger,
+        budget,
+      );
+      const listedAt = new Date().toISOString();
+      openSubmissions = buildOpenSubmissionPayload(openNodes, config, listedAt);
+      readyForReviewAt = mapReadyForReviewAt(
+        openNodes,
+        config.readyLabel,
+        listedAt,
+      );
+    } else {
+      budget.defer("open-submissions");
+      logger.info(
+        `[Ingest] GraphQL budget low (${budget.remaining("graphql")} points remaining); keeping the previous open submissions snapshot.`,
+      );
+    }
 
-    const openVersion = await hashString(JSON.stringify(openPrs));
-    const mergedVersion = await hashString(JSON.stringify(mergedPrs));
-
-    let openPointer: DatasetPointer | null = previousOpenPointer;
-    if (!openPointer || openPointer.version !== openVersion) {
-      const openWriteOptions = {
-        updatedAt: nowIso,
-        hash: openVersion,
-        ...(datasetBaseUrl ? { baseUrl: datasetBaseUrl } : {}),
-      } as const;
-      openPointer = await writeDatasetJSON(
-        env.QUEUE_DATA,
-        OPEN_QUEUE_DATASET,
-        openVersion,
-        openPrs,
-        openWriteOptions,
+    const submissions = await resolveSubmissionManifests(
+      env,
+      config,
+      [openPrs, closedPrs, mergedPrs],
+      (pr) => fetchSubmissionManifest(octokit, config, pr, logger),
+      {
+        maxLookups: MAX_MANIFEST_LOOKUPS_PER_RUN,
+        canLookup: () => budget.canAfford("core", MANIFEST_LOOKUP_CORE_RESERVE),
+        dryRun,
+      },
+    );
+    if (submissions.lookups > 0 || submissions.pending > 0) {
+      logger.info(
+        `[Ingest] Read ${submissions.lookups} submission manifest(s); ${submissions.pending} PR(s) still without manifest metadata.`,
       );
+    }
+    ({ openPrs, mergedPrs } = annotateSubmissions(
+      openPrs,
+      mergedPrs,
+      closedPrs,
+      submissions.manifests,
+    ));
+
+    if (readyForReviewAt) {
+      const readyAt = readyForReviewAt;
+      openPrs = openPrs.map(({ readyForReviewAt: _previous, ...pr }) => {
+        const at = readyAt.get(pr.id);
+        return at ? { ...pr, readyForReviewAt: at } : pr;
+      });
+    }
+
+    openPrs = computeQueueProjections(openPrs, mergedPrs);
+
+    const latestMergedAt = computeLatestTimestamp(
+      mergedPrs,
+      (pr) => pr.mergedAt,
+    );
+    const latestClosedAt = computeLatestTimestamp(
+      closedPrs,
+      (pr) => pr.closedAt,
+    );
+    const nowIso = new Date().toISOString();
+
+    const persistOptions = {
+      updatedAt: nowIso,
+      baseUrl: datasetBaseUrl,
+      dryRun,
+    };
+    const openWrite = await persistDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openPrs,
+      previousOpenPointer,
+      persistOptions,
+    );
+    const openPointer = openWrite.pointer;
+    if (openWrite.updated) {
       openDatasetUpdated = true;
       logger.info(
-        `[Ingest] Open queue dataset updated (version ${openVersion}).`,
+        `[Ingest] Open queue dataset updated (version ${openPointer.version}).`,
       );
     }
 
-    let mergedPointer: DatasetPointer | null = previousMergedPointer;
-    if (!mergedPointer || mergedPointer.version !== mergedVersion) {
-      const mergedWriteOptions = {
-        updatedAt: nowIso,
-        hash: mergedVersion,
-        ...(datasetBaseUrl ? { baseUrl: datasetBaseUrl } : {}),
-      } as const;
-      mergedPointer = await writeDatasetJSON(
-        env.QUEUE_DATA,
-        MERGED_HISTORY_DATASET,
-        mergedVersion,
-        mergedPrs,
-        mergedWriteOptions,
-      );
+    const mergedWrite = await persistDataset(
+      env,
+      MERGED_HISTORY_DATASET,
+      mergedPrs,
+      previousMergedPointer,
+      persistOptions,
+    );
+    const mergedPointer = mergedWrite.pointer;
+    if (mergedWrite.updated) {
       mergedDatasetUpdated = true;
       logger.info(
-        `[Ingest] Merged history dataset updated (version ${mergedVersion}).`,
+        `[Ingest] Merged history dataset updated (version ${mergedPointer.version}).`,
       );
     }
 
-    const totals = openPrs.reduce(
-      (acc, pr) => {
-        acc.readyTotal += 1;
-        if (pr.type === "plugin") {
-          acc.readyPlugins += 1;
-        } else if (pr.type === "theme") {
-          acc.readyThemes += 1;
-        }
-        return acc;
-      },
-      { readyTotal: 0, readyPlugins: 0, readyThemes: 0 },
+    const closedWrite = await persistDataset(
+      env,
+      CLOSED_HISTORY_DATASET,
+      closedPrs,
+      previousClosedPointer,
+      persistOptions,
     );
+    const closedPointer = closedWrite.pointer;
+    if (closedWrite.updated) {
+      closedDatasetUpdated = true;
+      logger.info(
+        `[Ingest] Closed history dataset updated (version ${closedPointer.version}).`,
+      );
+    }
 
-    const waitEstimates = {
-      plugin: computeWaitEstimate(mergedPrs, "plugin"),
-      theme: computeWaitEstimate(mergedPrs, "theme"),
-    };
+    const previousQuality = previousQualityPointer
+      ? dataQualityDatasetSchema.safeParse(
+          await readDatasetJSON<unknown>(env.QUEUE_DATA, DATA_QUALITY_DATASET),
+        )
+      : null;
+    if (previousQuality && !previousQuality.success) {
+      logger.info(
+        "[Ingest] Stored data-quality dataset is invalid; rebuilding it from this run.",
+      );
+    }
+    const qualityReport = buildDataQualityReport(quality, {
+      previous: previousQuality?.data ?? null,
+      openRefreshed: !openResult.notModified,
+      mergedRefreshMode,
+      closedRefreshed: closedNeedsRefresh,
+      openPrs,
+      mergedPrs,
+      closedPrs,
+      truncatedSearchRanges,
+      previousTruncatedSearchRanges:
+        previousSummary?.dataQuality?.truncatedSearchRanges ?? [],
+      lookbackStart: computeLookbackStartDate(),
+      checkedAt: nowIso,
+    });
+    const qualityWrite = await persistDataset(
+      env,
+      DATA_QUALITY_DATASET,
+      qualityReport.issues,
+      previousQualityPointer,
+      persistOptions,
+    );
+    if (qualityWrite.updated) {
+      logger.info(
+        `[Ingest] Data-quality dataset updated (${qualityReport.issues.length} issue(s), version ${qualityWrite.pointer.version}).`,
+      );
+    }
 
-    const weeklyMerged = buildWeeklyMergedSummary(mergedPrs);
+    let submissionsPointer = previousSubmissionsPointer;
+    const {
+      readyTotal: _readyTotal,
+      byType: _byType,
+      ...previousStateTotals
+    } = previousSummary?.totals ?? { readyTotal: 0, byType: {} };
+    let stateTotals: Pick<
+      QueueSummary["totals"],
+      "submissionsTotal" | "byState"
+    > = previousStateTotals;
+    if (openSubmissions) {
+      const submissionsWrite = await persistDataset(
+        env,
+        OPEN_SUBMISSIONS_DATASET,
+        openSubmissions,
+        previousSubmissionsPointer,
+        persistOptions,
+      );
+      submissionsPointer = submissionsWrite.pointer;
+      if (submissionsWrite.updated) {
+        logger.info(
+          `[Ingest] Open submissions dataset updated (${openSubmissions.length} PR(s), version ${submissionsPointer.version}).`,
+        );
+      }
+      stateTotals = {
+        submissionsTotal: openSubmissions.length,
+        byState: countSubmissionsByState(config, openSubmissions),
+      };
+    }
 
+    const metrics = buildQueueSummaryMetrics(
+      config,
+      openPrs,
+      mergedPrs,
+      closedPrs,
+    );
+    const totals = { ...metrics.totals, ...stateTotals };
+
+    const previousHistory = previousHistoryPointer
+      ? queueHistoryDatasetSchema.safeParse(
+          await readDatasetJSON<unknown>(env.QUEUE_DATA, QUEUE_HISTORY_DATASET),
+        )
+      : null;
+    if (previousHistory && !previousHistory.success) {
+      logger.error(
+        "[Ingest] Stored queue history is invalid; starting a new history.",
+        previousHistory.error,
+      );
+    }
+    const history = updateQueueHistory({
+      previous: previousHistory?.data ?? null,
+      config,
+      totals,
+      mergedPrs,
+      lookbackStart: computeLookbackStartDate(),
+      recordedAt: nowIso,
+    });
+    const historyWrite = await persistDataset(
+      env,
+      QUEUE_HISTORY_DATASET,
+      history,
+      previousHistoryPointer,
+      persistOptions,
+    );
+    if (historyWrite.updated) {
+      logger.info(
+        `[Ingest] Queue history dataset updated (${history.length} day(s), version ${historyWrite.pointer.version}).`,
+      );
+    }
+
+    const rateLimit = budget.snapshot();
     const summary: QueueSummary = {
       checkedAt: nowIso,
       page1ETag: page1ETag,
+      queue: config,
       latestMergedAt,
+      latestClosedAt,
+      mergedReconciledAt,
+      ...metrics,
       totals,
-      waitEstimates,
-      weeklyMerged,
+      rateLimit,
+      dataQuality: qualityReport.summary,
       datasets: {
         openQueue: openPointer,
         mergedHistory: mergedPointer,
+        closedHistory: closedPointer,
+        dataQuality: qualityWrite.pointer,
+        openSubmissions: submissionsPointer,
+        queueHistory: historyWrite.pointer,
       },
     };
 
+    if (dryRun) {
+      const byPrNumber = (pr: { id: number }) => pr.id;
+      const datasets = await Promise.all([
+        diffDataset(
+          env,
+          OPEN_QUEUE_DATASET,
+          openPrs,
+          previousOpenPointer,
+          byPrNumber,
+        ),
+        diffDataset(
+          env,
+          MERGED_HISTORY_DATASET,
+          mergedPrs,
+          previousMergedPointer,
+          byPrNumber,
+        ),
+        diffDataset(
+          env,
+          CLOSED_HISTORY_DATASET,
+          closedPrs,
+          previousClosedPointer,
+          byPrNumber,
+        ),
+        diffDataset(
+          env,
+          DATA_QUALITY_DATASET,
+          qualityReport.issues,
+          previousQualityPointer,
+          issueKey,
+        ),
+        diffDataset(
+          env,
+          QUEUE_HISTORY_DATASET,
+          history,
+          previousHistoryPointer,
+          (row) => row.date,
+        ),
+        ...(openSubmissions
+          ? [
+              diffDataset(
+                env,
+                OPEN_SUBMISSIONS_DATASET,
+                openSubmissions,
+                previousSubmissionsPointer,
+                byPrNumber,
+              ),
+            ]
+          : []),
+      ]);
+      const dryRunMessage = `[Ingest] Dry run complete; ${datasets.filter((diff) => diff.changed).length} dataset(s) would change.`;
+      logger.info(dryRunMessage);
+      return {
+        runId,
+        ok: true,
+        message: dryRunMessage,
+        logs: logger.entries,
+        summaryUpdated,
+        openDatasetUpdated,
+        mergedDatasetUpdated,
+        closedDatasetUpdated,
+        mergedRefreshMode,
+        searchTruncated: truncatedSearchRanges.length > 0,
+        truncatedSearchRanges,
+        openDatasetVersion: openPointer.version,
+        mergedDatasetVersion: mergedPointer.version,
+        closedDatasetVersion: closedPointer.version,
+        checkedAt: summary.checkedAt,
+        forced,
+        rateLimit,
+        dryRun: { summary: queueSummarySchema.parse(summary), datasets },
+      };
+    }
+
     await writeQueueSummary(env, summary);
     summaryUpdated = true;
 
     const completeMessage = "[Ingest] Summary update complete.";
     logger.info(completeMessage);
     return {
+      runId,
       ok: true,
       message: completeMessage,
       logs: logger.entries,
       summaryUpdated,
       openDatasetUpdated,
       mergedDatasetUpdated,
+      closedDatasetUpdated,
+      mergedRefreshMode,
+      searchTruncated: truncatedSearchRanges.length > 0,
+      truncatedSearchRanges,
       openDatasetVersion: openPointer.version,
       mergedDatasetVersion: mergedPointer.version,
+      closedDatasetVersion: closedPointer.version,
       checkedAt: summary.checkedAt,
-      forced: force,
+      forced,
+      rateLimit,
     };
   } catch (error) {
     const errorMessage =
       "[Ingest] Failed to fetch data from GitHub or update KV.";
     logger.error(errorMessage, error);
     return {
+      runId,
       ok: false,
       message: errorMessage,
       error: describeError(error),
@@ -847,7 +2261,11 @@ export async function ingest(
       summaryUpdated,
       openDatasetUpdated,
       mergedDatasetUpdated,
-      forced: force,
+      closedDatasetUpdated,
+      searchTruncated: truncatedSearchRanges.length > 0,
+      truncatedSearchRanges,
+      forced,
+      rateLimit: budget.snapshot(),
     };
   }
 }
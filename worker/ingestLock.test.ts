@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import {
+  acquireIngestLock,
+  releaseIngestLock,
+  waitForIngestLock,
+} from "./ingestLock.ts";
+
+describe("ingest lock", () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMemoryEnv();
+  });
+
+  it("blocks a second holder while the lease is live", async () => {
+    await acquireIngestLock(env, "cron", "first");
+
+    const second = await acquireIngestLock(env, "manual", "second");
+
+    expect(second.status).toBe("blocked");
+    expect(second.holder.runId).toBe("first");
+  });
+
+  it("frees the lease on release", async () => {
+    await acquireIngestLock(env, "cron", "first");
+    await releaseIngestLock(env, "first");
+
+    expect((await acquireIngestLock(env, "manual", "second")).status).toBe(
+      "acquired",
+    );
+  });
+
+  it("waits out a short webhook lease instead of giving up", async () => {
+    await acquireIngestLock(env, "webhook", "delivery", 100);
+
+    const state = await waitForIngestLock(env, "cron", "cron-run", {
+      waitMs: 2_000,
+      retryDelayMs: 50,
+    });
+
+    expect(state.status).toBe("taken-over");
+    expect(state.holder.runId).toBe("cron-run");
+  });
+
+  it("reports blocked once the wait budget is spent", async () => {
+    await acquireIngestLock(env, "manual", "long-run");
+
+    const state = await waitForIngestLock(env, "cron", "cron-run", {
+      waitMs: 200,
+      retryDelayMs: 50,
+    });
+
+    expect(state.status).toBe("blocked");
+    expect(state.holder.runId).toBe("long-run");
+  });
+});
@@ -0,0 +1,152 @@
+import { z } from "zod";
+
+const INGEST_LOCK_KEY = "ingest-lock";
+// Comfortably above the longest observed ingest; a crashed run frees the lock
+// after this long.
+const LEASE_DURATION_MS = 15 * 60 * 1000;
+const LOCK_RETRY_DELAY_MS = 5_000;
+// KV expirations must be at least 60 seconds; keep the record a little longer
+// than the lease so expiry is decided by `expiresAt`, not by KV.
+const LEASE_RECORD_GRACE_SECONDS = 60;
+
+const isoDateTime = z.string().datetime({ offset: true });
+
+const ingestLockSchema = z.object({
+  owner: z.string().min(1),
+  runId: z.string().min(1),
+  acquiredAt: isoDateTime,
+  expiresAt: isoDateTime,
+});
+
+type IngestLock = z.infer<typeof ingestLockSchema>;
+
+export interface IngestLockState {
+  status: "acquired" | "taken-over" | "blocked";
+  holder: IngestLock;
+  previous?: IngestLock;
+}
+
+interface WaitForIngestLockOptions {
+  /** How long to keep retrying while another holder has a live lease. */
+  waitMs: number;
+  retryDelayMs?: number;
+  leaseMs?: number;
+}
+
+async function readLock(env: Env): Promise<IngestLock | null> {
+  const raw = await env.QUEUE_DATA.get(INGEST_LOCK_KEY, { type: "json" });
+  if (!raw) return null;
+
+  const parsed = ingestLockSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(
+      "[IngestLock] Stored lock is malformed; treating it as released.",
+      parsed.error,
+    );
+    return null;
+  }
+  return parsed.data;
+}
+
+function isExpired(lock: IngestLock, now: number): boolean {
+  return new Date(lock.expiresAt).getTime() <= now;
+}
+
+/**
+ * Try to take the ingest lease for a run.
+ *
+ * A live lease held by another run blocks the attempt; an expired one is taken
+ * over. KV offers no compare-and-swap, so the write is read back and the
+ * attempt counts as blocked if another writer won the race.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param owner - Who is asking, e.g. `cron`, `manual` or `webhook`.
+ * @param runId - Identifier of the run that will hold the lease.
+ * @param leaseMs - Lease length; short holders such as webhook updates pass
+ *   less so a crash does not block ingest for long.
+ * @returns The lock outcome including the current holder.
+ */
+export async function acquireIngestLock(
+  env: Env,
+  owner: string,
+  runId: string,
+  leaseMs: number = LEASE_DURATION_MS,
+): Promise<IngestLockState> {
+  const now = Date.now();
+  const existing = await readLock(env);
+  if (existing && existing.runId !== runId && !isExpired(existing, now)) {
+    return { status: "blocked", holder: existing };
+  }
+
+  const lock: IngestLock = {
+    owner,
+    runId,
+    acquiredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + leaseMs).toISOString(),
+  };
+  await env.QUEUE_DATA.put(INGEST_LOCK_KEY, JSON.stringify(lock), {
+    expirationTtl: Math.ceil(leaseMs / 1000) + LEASE_RECORD_GRACE_SECONDS,
+  });
+
+  const confirmed = await readLock(env);
+  if (confirmed && confirmed.runId !== runId) {
+    return { status: "blocked", holder: confirmed };
+  }
+
+  if (existing && existing.runId !== runId) {
+    console.warn(
+      `[IngestLock] Took over expired lock from ${existing.owner} run ${existing.runId}.`,
+    );
+    return { status: "taken-over", holder: lock, previous: existing };
+  }
+  return { status: "acquired", holder: lock };
+}
+
+/**
+ * Take the ingest lease, retrying for a while when it is held.
+ *
+ * Webhook updates hold the lease for seconds, so a brief wait lets a run go
+ * ahead instead of giving up because an event was being applied.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param owner - Who is asking, e.g. `cron` or `webhook`.
+ * @param runId - Identifier of the run that will hold the lease.
+ * @param options - Wait budget, retry delay and lease length.
+ * @returns The last lock outcome; `blocked` once the wait budget is spent.
+ */
+export async function waitForIngestLock(
+  env: Env,
+  owner: string,
+  runId: string,
+  options: WaitForIngestLockOptions,
+): Promise<IngestLockState> {
+  const deadline = Date.now() + options.waitMs;
+  const retryDelayMs = options.retryDelayMs ?? LOCK_RETRY_DELAY_MS;
+  while (true) {
+    const state = await acquireIngestLock(env, owner, runId, options.leaseMs);
+    if (state.status !== "blocked" || Date.now() + retryDelayMs > deadline) {
+      return state;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+  }
+}
+
+/**
+ * Release the ingest lease if it is still held by the given run.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param runId - Identifier of the run that acquired the lease.
+ */
+export async function releaseIngestLock(
+  env: Env,
+  runId: string,
+): Promise<void> {
+  const current = await readLock(env);
+  if (current && current.runId !== runId) {
+    console.warn(
+      `[IngestLock] Lock now held by ${current.owner} run ${current.runId}; not releasing.`,
+    );
+    return;
+  }
+  await env.QUEUE_DATA.delete(INGEST_LOCK_KEY);
+}
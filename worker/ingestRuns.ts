@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { rateLimitStateSchema } from "../shared/queueSchema.ts";
+
+const RUN_INDEX_KEY = "ingest-runs:index";
+const RUN_KEY_PREFIX = "ingest-run:";
+const MAX_STORED_RUNS = 50;
+const MAX_STORED_LOG_ENTRIES = 200;
+const MAX_LOG_MESSAGE_LENGTH = 1000;
+// Safety net in case an index update is lost and a record is never pruned.
+const RUN_RECORD_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+const isoDateTime = z.string().datetime({ offset: true });
+
+const ingestRunSummarySchema = z.object({
+  id: z.string().min(1),
+  trigger: z.enum(["cron", "manual"]),
+  startedAt: isoDateTime,
+  finishedAt: isoDateTime,
+  durationMs: z.number().int().nonnegative(),
+  ok: z.boolean(),
+  forced: z.boolean(),
+  message: z.string(),
+  error: z.string().nullable(),
+});
+
+const ingestRunSchema = ingestRunSummarySchema.extend({
+  phases: z.object({
+    summaryUpdated: z.boolean(),
+    openDatasetUpdated: z.boolean(),
+    mergedDatasetUpdated: z.boolean(),
+    closedDatasetUpdated: z.boolean(),
+    mergedRefreshMode: z.enum(["full", "incremental", "cached"]).nullable(),
+    searchTruncated: z.boolean(),
+    truncatedSearchRanges: z.array(z.string()),
+  }),
+  datasetVersions: z.object({
+    openQueue: z.string().nullable(),
+    mergedHistory: z.string().nullable(),
+    closedHistory: z.string().nullable(),
+  }),
+  rateLimit: rateLimitStateSchema.nullable(),
+  logs: z.array(
+    z.object({
+      level: z.enum(["debug", "info", "error"]),
+      message: z.string(),
+    }),
+  ),
+});
+
+const runIndexSchema = z.array(ingestRunSummarySchema);
+
+type IngestRunSummary = z.infer<typeof ingestRunSummarySchema>;
+export type IngestRun = z.infer<typeof ingestRunSchema>;
+export type IngestTrigger = IngestRun["trigger"];
+
+function runKey(id: string): string {
+  return `${RUN_KEY_PREFIX}${id}`;
+}
+
+function summariseRun(run: IngestRun): IngestRunSummary {
+  return ingestRunSummarySchema.parse(run);
+}
+
+/**
+ * Keep the newest log entries and cap each message, favouring the tail of the
+ * run where failures are reported.
+ */
+function trimLogs(logs: IngestRun["logs"]): IngestRun["logs"] {
+  return logs.slice(-MAX_STORED_LOG_ENTRIES).map((entry) => ({
+    level: entry.level,
+    message:
+      entry.message.length > MAX_LOG_MESSAGE_LENGTH
+        ? `${entry.message.slice(0, MAX_LOG_MESSAGE_LENGTH)}…`
+        : entry.message,
+  }));
+}
+
+async function readRunIndex(env: Env): Promise<IngestRunSummary[]> {
+  const raw = await env.QUEUE_DATA.get(RUN_INDEX_KEY, { type: "json" });
+  if (!raw) return [];
+
+  const parsed = runIndexSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(
+      "[IngestRuns] Stored run index failed validation; starting a new one.",
+      parsed.error,
+    );
+    return [];
+  }
+  return parsed.data;
+}
+
+/**
+ * Persist an ingest run and add it to the capped run index.
+ *
+ * The index keeps the newest {@link MAX_STORED_RUNS} runs; records that fall
+ * off the end are deleted.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param run - Completed run record.
+ */
+export async function recordIngestRun(env: Env, run: IngestRun): Promise<void> {
+  const record = ingestRunSchema.parse({ ...run, logs: trimLogs(run.logs) });
+  await env.QUEUE_DATA.put(runKey(record.id), JSON.stringify(record), {
+    expirationTtl: RUN_RECORD_TTL_SECONDS,
+  });
+
+  const index = (await readRunIndex(env)).filter(
+    (entry) => entry.id !== record.id,
+  );
+  index.unshift(summariseRun(record));
+  const evicted = index.splice(MAX_STORED_RUNS);
+
+  await env.QUEUE_DATA.put(RUN_INDEX_KEY, JSON.stringify(index));
+  await Promise.all(
+    evicted.map((entry) => env.QUEUE_DATA.delete(runKey(entry.id))),
+  );
+}
+
+/**
+ * List stored ingest runs, newest first, without their logs.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param limit - Maximum number of runs to return.
+ */
+export async function listIngestRuns(
+  env: Env,
+  limit: number = MAX_STORED_RUNS,
+): Promise<IngestRunSummary[]> {
+  const index = await readRunIndex(env);
+  return index.slice(0, Math.max(0, limit));
+}
+
+/**
+ * Read a single stored ingest run including its logs.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param id - Run identifier as returned by `ingest()`.
+ * @returns The run, or `null` when unknown, evicted or malformed.
+ */
+export async function readIngestRun(
+  env: Env,
+  id: string,
+): Promise<IngestRun | null> {
+  const raw = await env.QUEUE_DATA.get(runKey(id), { type: "json" });
+  if (!raw) return null;
+
+  const parsed = ingestRunSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(
+      `[IngestRuns] Stored run "${id}" failed validation; ignoring record.`,
+      parsed.error,
+    );
+    return null;
+  }
+  return parsed.data;
+}
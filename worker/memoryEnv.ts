@@ -0,0 +1,101 @@
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * In-memory stand-in for a KV namespace, for running worker code in Node:
+ * offline ingest replay and tests. Values are stored as text; expiry and
+ * prefix listing behave like KV, metadata is not kept.
+ */
+function createMemoryKvNamespace(): KVNamespace {
+  const store = new Map<string, StoredValue>();
+
+  const read = (key: string): string | null => {
+    const entry = store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+
+  const readAs = (
+    key: string,
+    options?: string | { type?: string | undefined },
+  ) => {
+    const value = read(key);
+    const type = typeof options === "string" ? options : options?.type;
+    return value !== null && type === "json"
+      ? (JSON.parse(value) as unknown)
+      : value;
+  };
+
+  return {
+    async get<T>(
+      key: string | string[],
+      options?: string | { type?: string | undefined },
+    ): Promise<T> {
+      if (Array.isArray(key)) {
+        return new Map(key.map((name) => [name, readAs(name, options)])) as T;
+      }
+      return readAs(key, options) as T;
+    },
+    async getWithMetadata<T>(
+      key: string | string[],
+      options?: string | { type?: string | undefined },
+    ): Promise<T> {
+      const withMetadata = (name: string) => ({
+        value: readAs(name, options),
+        metadata: null,
+        cacheStatus: null,
+      });
+      if (Array.isArray(key)) {
+        return new Map(key.map((name) => [name, withMetadata(name)])) as T;
+      }
+      return withMetadata(key) as T;
+    },
+    async put(key, value, options) {
+      if (typeof value !== "string") {
+        throw new TypeError("The in-memory KV namespace stores strings only.");
+      }
+      const ttl = options?.expirationTtl;
+      store.set(key, {
+        value,
+        expiresAt: ttl ? Date.now() + ttl * 1000 : null,
+      });
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+    async list(options) {
+      const prefix = options?.prefix ?? "";
+      const keys = [...store.keys()]
+        .filter((name) => name.startsWith(prefix) && read(name) !== null)
+        .sort()
+        .map((name) => ({ name }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  };
+}
+
+/**
+ * Worker bindings backed by in-memory KV namespaces and empty variables.
+ *
+ * @param overrides - Bindings or variables to set, e.g. `QUEUE_CONFIG`.
+ */
+export function createMemoryEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    QUEUE_DATA: createMemoryKvNamespace(),
+    GITHUB_APP_KV: createMemoryKvNamespace(),
+    TRIGGER_TOKEN: "",
+    PUBLIC_BASE_URL: "",
+    GH_APP_ID: "",
+    GH_INSTALLATION_ID: "",
+    GH_APP_KEY_PASSWORD: "",
+    QUEUE_CONFIG: "",
+    GITHUB_WEBHOOK_SECRET: "",
+    ...overrides,
+  };
+}
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+import type { MergedPullRequest, PullRequest } from "../shared/queueSchema.ts";
+import {
+  computeQueueProjections,
+  computeWaitEstimate,
+  resolveWaitEstimators,
+  simulateMergeForecast,
+} from "./metrics.ts";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import { loadQueueConfig } from "./queueConfig.ts";
+
+const NOW = new Date("2026-10-19T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * DAY_MS).toISOString();
+}
+
+function openPr(id: number, overrides: Partial<PullRequest> = {}): PullRequest {
+  return {
+    id,
+    title: `Add plugin ${id}`,
+    url: `https://github.com/o/r/pull/${id}`,
+    type: "plugin",
+    createdAt: daysAgo(30),
+    ...overrides,
+  };
+}
+
+function mergedPr(
+  id: number,
+  mergedDaysAgo: number,
+  daysToMerge: number,
+  overrides: Partial<MergedPullRequest> = {},
+): MergedPullRequest {
+  return {
+    id,
+    title: `Add plugin ${id}`,
+    url: `https://github.com/o/r/pull/${id}`,
+    type: "plugin",
+    createdAt: daysAgo(mergedDaysAgo + daysToMerge),
+    mergedAt: daysAgo(mergedDaysAgo),
+    daysToMerge,
+    ...overrides,
+  };
+}
+
+describe("computeQueueProjections", () => {
+  it("keeps an upper bound when most weeks saw no merge", () => {
+    // One merge in each of the last three weeks, none in the other nine:
+    // mean 0.25/week, fast week (80th percentile) 0.8/week, slow week floored
+    // at a quarter of the mean, 0.0625/week.
+    const history = [1, 8, 15].map((age, index) => mergedPr(index, age, 5));
+
+    const [first] = computeQueueProjections([openPr(100)], history, NOW);
+
+    expect(first?.queuePosition).toBe(1);
+    expect(first?.projectedMerge).toEqual({
+      estimatedAt: daysAgo(-28),
+      earliestAt: daysAgo(-9),
+      latestAt: daysAgo(-112),
+    });
+  });
+
+  it("never projects the earliest date after the estimate", () => {
+    // A single merge in twelve weeks: the 80th-percentile week is empty, so the
+    // fast rate falls back to the mean (1/12 per week, 84 days); the slow rate
+    // is floored at a quarter of it (336 days).
+    const history = [mergedPr(1, 3, 5)];
+
+    const [first] = computeQueueProjections([openPr(100)], history, NOW);
+
+    expect(first?.projectedMerge).toEqual({
+      estimatedAt: daysAgo(-84),
+      earliestAt: daysAgo(-84),
+      latestAt: daysAgo(-336),
+    });
+  });
+
+  it("leaves the projection open when nothing was merged", () => {
+    const [first] = computeQueueProjections([openPr(100)], [], NOW);
+
+    expect(first?.projectedMerge).toEqual({
+      estimatedAt: null,
+      earliestAt: null,
+      latestAt: null,
+    });
+  });
+});
+
+describe("computeWaitEstimate", () => {
+  it("headlines the historical estimate by default", async () => {
+    const config = await loadQueueConfig(createMemoryEnv());
+    const history = [1, 8, 15].map((age, index) => mergedPr(index, age, 5));
+
+    const estimate = computeWaitEstimate(
+      history,
+      [],
+      "plugin",
+      resolveWaitEstimators(config),
+      "created",
+      NOW,
+    );
+
+    expect(estimate.method).toBe("historical");
+    expect(Object.keys(estimate.estimates ?? {})).toEqual([
+      "historical",
+      "throughput",
+      "survival",
+    ]);
+  });
+
+  it("interpolates historical percentiles between neighbouring waits", async () => {
+    const config = await loadQueueConfig(createMemoryEnv());
+    // Waits of 2, 4, 10 and 30 days. The median sits halfway between 4 and
+    // 10 (7); p80 at rank 2.4 is 10 + 0.4 * 20 = 18, p90 at rank 2.7 is 24 and
+    // p95 at rank 2.85 is 27.
+    const history = [2, 4, 10, 30].map((days, index) =>
+      mergedPr(index, 1, days),
+    );
+    const estimators = resolveWaitEstimators({
+      ...config,
+      estimators: [{ id: "historical", params: { percentiles: [90] } }],
+    });
+
+    const estimate = computeWaitEstimate(
+      history,
+      [],
+      "plugin",
+      estimators,
+      "created",
+      NOW,
+    );
+
+    expect(estimate).toMatchObject({
+      p50: 7,
+      p80: 18,
+      p95: 27,
+      sampleSize: 4,
+      percentiles: { p90: 24 },
+    });
+  });
+
+  it("counts open PRs as censored in the survival estimate", async () => {
+    const config = await loadQueueConfig(createMemoryEnv());
+    // Merged after 10, 20, 30 and 40 days; one PR still open after 25 days.
+    // Five at risk: 10 days leaves 4/5 = 0.8, 20 days 0.8 * 3/4 = 0.6. The
+    // open PR then leaves the risk set, so 30 days halves the rest to 0.3 and
+    // 40 days ends the curve. Dropping the open PR would put p50 at 20 days.
+    const history = [10, 20, 30, 40].map((days, index) =>
+      mergedPr(index, 1, days),
+    );
+    const estimators = resolveWaitEstimators({
+      ...config,
+      estimators: [{ id: "survival" }],
+    });
+
+    const estimate = computeWaitEstimate(
+      history,
+      [openPr(100, { createdAt: daysAgo(25) })],
+      "plugin",
+      estimators,
+      "created",
+      NOW,
+    );
+
+    expect(estimate).toMatchObject({
+      p50: 30,
+      p80: 40,
+      p95: 40,
+      sampleSize: 5,
+    });
+  });
+
+  it("leaves survival percentiles the curve never reaches as null", async () => {
+    const config = await loadQueueConfig(createMemoryEnv());
+    // Merged after 10, 20, 30 and 35 days; two PRs still open after 40 days.
+    // The curve steps to 5/6, 2/3, 1/2 and 1/3, then the open PRs are
+    // censored: it never falls to 0.2 or 0.05.
+    const history = [10, 20, 30, 35].map((days, index) =>
+      mergedPr(index, 1, days),
+    );
+    const estimators = resolveWaitEstimators({
+      ...config,
+      estimators: [{ id: "survival" }],
+    });
+
+    const estimate = computeWaitEstimate(
+      history,
+      [100, 101].map((id) => openPr(id, { createdAt: daysAgo(40) })),
+      "plugin",
+      estimators,
+      "created",
+      NOW,
+    );
+
+    expect(estimate).toMatchObject({ p50: 30, p80: null, p95: null });
+  });
+
+  it("floors slow throughput weeks instead of leaving the wait unbounded", async () => {
+    const config = await loadQueueConfig(createMemoryEnv());
+    // Three merges in twelve weeks: every percentile up to the 75th is an
+    // empty week, so the rate is floored at a quarter of the 0.25/week mean.
+    // An empty queue then waits 1 / 0.0625 weeks, 112 days.
+    const history = [1, 8, 15].map((age, index) => mergedPr(index, age, 5));
+    const estimators = resolveWaitEstimators({
+      ...config,
+      estimators: [{ id: "throughput" }],
+    });
+
+    const estimate = computeWaitEstimate(
+      history,
+      [],
+      "plugin",
+      estimators,
+      "created",
+      NOW,
+    );
+
+    expect(estimate.p80).toBe(112);
+    expect(estimate.p95).toBe(112);
+  });
+});
+
+describe("simulateMergeForecast", () => {
+  // Two merges, one and none in turn over the twelve-week window.
+  const history = [0, 0, 1, 3, 3, 4, 6, 6, 7, 9, 9, 10].map((week, index) =>
+    mergedPr(index, week * 7 + 1, 5),
+  );
+
+  /** First week by which the given share of runs reached the submission. */
+  const weekAt = (cumulative: number[], share: number) =>
+    cumulative.findIndex((value) => value >= share) + 1;
+
+  it("gives the same percentiles for the same seed", () => {
+    const options = { seed: 7, now: NOW };
+    const first = simulateMergeForecast(history, "plugin", 10, options);
+    const second = simulateMergeForecast(history, "plugin", 10, options);
+
+    expect(first?.seed).toBe(7);
+    expect(second?.cumulative).toEqual(first?.cumulative);
+    const percentiles = (cumulative: number[]) =>
+      [0.5, 0.8, 0.95].map((share) => weekAt(cumulative, share));
+    expect(percentiles(second?.cumulative ?? [])).toEqual(
+      percentiles(first?.cumulative ?? []),
+    );
+  });
+
+  it("draws a different sample for another seed", () => {
+    const first = simulateMergeForecast(history, "plugin", 10, {
+      seed: 7,
+      now: NOW,
+    });
+    const other = simulateMergeForecast(history, "plugin", 10, {
+      seed: 8,
+      now: NOW,
+    });
+
+    expect(other?.seed).toBe(8);
+    expect(other?.cumulative).not.toEqual(first?.cumulative);
+  });
+});
@@ -1,111 +1,754 @@
-import type { MergedPullRequest, WaitEstimate } from "../shared/queueSchema.ts";
+import { z } from "zod";
+import type {
+  ClosedPullRequest,
+  ClosureRate,
+  MergeForecast,
+  MergedPullRequest,
+  MergeProjection,
+  PullRequest,
+  QueueConfig,
+  WaitEstimate,
+  WaitEstimateValue,
+} from "../shared/queueSchema.ts";
 import type { QueueSummary } from "../shared/queueSchema.ts";
 
 type WeeklyMergedSummary = QueueSummary["weeklyMerged"];
 
 const VELOCITY_WEEKS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
 
-function calculateStats(prs: MergedPullRequest[]) {
-  if (prs.length === 0) {
-    return { mean: NaN, stdDev: NaN };
+/**
+ * Which duration a wait estimate is based on: time since the PR was opened,
+ * time spent under the "Ready for review" label, or time since the first
+ * submission of the same plugin or theme. The latter two fall back to the
+ * first for PRs without label history or earlier attempts.
+ */
+type WaitBasis = NonNullable<QueueConfig["waitBasis"]>;
+
+function resolveWaitDays(pr: MergedPullRequest, basis: WaitBasis): number {
+  if (basis === "reviewQueue") {
+    return pr.daysInReviewQueue ?? pr.daysToMerge;
+  }
+  if (basis === "firstSubmitted" && pr.firstSubmittedAt) {
+    return Math.round(
+      (new Date(pr.mergedAt).getTime() -
+        new Date(pr.firstSubmittedAt).getTime()) /
+        DAY_MS,
+    );
   }
+  return pr.daysToMerge;
+}
+
+// p95 more than this multiple of the median marks a long-tailed distribution.
+const HIGH_VARIANCE_RATIO = 2;
 
-  const values = prs.map((pr) => pr.daysToMerge);
-  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-  const variance =
-    values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) /
-    values.length;
-  const stdDev = Math.sqrt(variance);
-  return { mean, stdDev };
+/**
+ * Linearly interpolated percentile of an ascending list, or `null` when empty.
+ */
+function percentile(sorted: number[], quantile: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = (sorted.length - 1) * quantile;
+  const below = sorted[Math.floor(rank)] ?? 0;
+  const above = sorted[Math.ceil(rank)] ?? below;
+  return below + (above - below) * (rank - Math.floor(rank));
 }
 
-export function computeWaitEstimate(
-  history: MergedPullRequest[],
-  type: "plugin" | "theme",
-): WaitEstimate {
-  const now = new Date();
-  const twelveWeeksAgo = new Date(
-    now.getTime() - VELOCITY_WEEKS * 7 * 24 * 60 * 60 * 1000,
-  );
+function roundDays(days: number | null): number | null {
+  return days === null ? null : Math.round(days);
+}
 
-  const recentMerged = history.filter((pr) => {
-    const mergedDate = new Date(pr.mergedAt);
-    return pr.type === type && mergedDate > twelveWeeksAgo;
-  });
+function isLongTailed(p50: number | null, p95: number | null): boolean {
+  if (p50 === null) {
+    return false;
+  }
+  return p95 === null || (p50 > 0 && p95 / p50 > HIGH_VARIANCE_RATIO);
+}
+
+/**
+ * When the wait of a PR started under the given basis; the counterpart of
+ * {@link resolveWaitDays} for PRs that are still open.
+ */
+function resolveWaitStart(
+  pr: PullRequest | MergedPullRequest,
+  basis: WaitBasis,
+): string {
+  if (basis === "reviewQueue") {
+    return pr.readyForReviewAt ?? pr.createdAt;
+  }
+  if (basis === "firstSubmitted") {
+    return pr.firstSubmittedAt ?? pr.createdAt;
+  }
+  return pr.createdAt;
+}
 
-  const prsPerWeek = recentMerged.length / VELOCITY_WEEKS;
-  const last50Merged = recentMerged.slice(-50);
-  const stats = calculateStats(last50Merged);
+interface SurvivalObservation {
+  days: number;
+  /** `true` when merged; `false` when still open (censored). */
+  merged: boolean;
+}
 
-  let estimatedDays: number | null = null;
-  let lowerBound: number | null = null;
-  let upperBound: number | null = null;
+/**
+ * Kaplan–Meier curve: the estimated share still waiting after each observed
+ * merge, in order of wait. Censored observations leave the risk set without
+ * lowering the curve.
+ */
+function kaplanMeierCurve(
+  observations: SurvivalObservation[],
+): { days: number; surviving: number }[] {
+  const sorted = [...observations].sort((a, b) => a.days - b.days);
+  const curve: { days: number; surviving: number }[] = [];
+  let atRisk = sorted.length;
+  let surviving = 1;
+  let index = 0;
 
-  if (prsPerWeek > 0 && !Number.isNaN(stats.mean)) {
-    const baseEstimate = stats.mean;
-    estimatedDays = Math.round(baseEstimate);
-    lowerBound = Math.max(0, Math.round(baseEstimate - stats.stdDev));
-    upperBound = Math.round(baseEstimate + stats.stdDev);
+  while (index < sorted.length) {
+    const days = sorted[index]?.days ?? 0;
+    let merged = 0;
+    let leaving = 0;
+    while (index < sorted.length && sorted[index]?.days === days) {
+      if (sorted[index]?.merged) merged += 1;
+      leaving += 1;
+      index += 1;
+    }
+    if (merged > 0) {
+      surviving *= 1 - merged / atRisk;
+      curve.push({ days, surviving });
+    }
+    atRisk -= leaving;
   }
 
-  const confidenceThreshold = 0.5;
-  const isHighVariance =
-    !Number.isNaN(stats.mean) &&
-    stats.mean > 0 &&
-    stats.stdDev / stats.mean > confidenceThreshold;
+  return curve;
+}
+
+/** Data every wait estimator can draw on. */
+interface WaitEstimatorInput {
+  history: MergedPullRequest[];
+  openPrs: PullRequest[];
+  type: string;
+  basis: WaitBasis;
+  /** Open PRs of the type, the backlog a new submission joins. */
+  queueSize: number;
+  now: Date;
+}
+
+/**
+ * Wait distribution derived by an estimator. `waitAt(0.8)` is the number of
+ * days within which 80% of new submissions are expected, or `null` when the
+ * estimator gives no bound.
+ */
+interface WaitDistribution {
+  sampleSize: number;
+  windowDays: number;
+  waitAt: (quantile: number) => number | null;
+}
+
+/**
+ * A wait estimation strategy. `paramsSchema` validates the parameters the
+ * queue configuration gives it and fills in the defaults.
+ */
+interface WaitEstimator<Params extends { percentiles: number[] }> {
+  id: string;
+  paramsSchema: z.ZodType<Params>;
+  compute: (input: WaitEstimatorInput, params: Params) => WaitDistribution;
+}
+
+interface RegisteredWaitEstimator {
+  id: string;
+  /** @throws {Error} When the parameters fail the estimator's schema. */
+  configure: (params: unknown) => ConfiguredWaitEstimator;
+}
+
+interface ConfiguredWaitEstimator {
+  id: string;
+  estimate: (input: WaitEstimatorInput) => WaitEstimateValue;
+}
+
+// Percentiles reported next to p50/p80/p95, e.g. `[90, 99]`.
+const percentilesParam = z.array(z.number().gt(0).lt(100)).default([]);
+
+function summariseWaits(
+  distribution: WaitDistribution,
+  percentiles: number[],
+): WaitEstimateValue {
+  const waitAt = (quantile: number) => roundDays(distribution.waitAt(quantile));
+  const p50 = waitAt(0.5);
+  const p95 = waitAt(0.95);
+
+  return {
+    p50,
+    p80: waitAt(0.8),
+    p95,
+    sampleSize: distribution.sampleSize,
+    windowDays: distribution.windowDays,
+    isHighVariance: isLongTailed(p50, p95),
+    ...(percentiles.length > 0
+      ? {
+          percentiles: Object.fromEntries(
+            percentiles.map((value) => [`p${value}`, waitAt(value / 100)]),
+          ),
+        }
+      : {}),
+  };
+}
 
+function defineWaitEstimator<Params extends { percentiles: number[] }>(
+  estimator: WaitEstimator<Params>,
+): RegisteredWaitEstimator {
   return {
-    estimatedDays,
-    range: {
-      lower: lowerBound,
-      upper: upperBound,
+    id: estimator.id,
+    configure: (rawParams) => {
+      const parsed = estimator.paramsSchema.safeParse(rawParams ?? {});
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid parameters for wait estimator "${estimator.id}": ${parsed.error.message}`,
+        );
+      }
+      const params = parsed.data;
+      return {
+        id: estimator.id,
+        estimate: (input) =>
+          summariseWaits(estimator.compute(input, params), params.percentiles),
+      };
+    },
+  };
+}
+
+/**
+ * Percentiles of the waits of the last `maxSamples` PRs of a type merged in
+ * the trailing window. Ignores how many PRs are waiting right now.
+ */
+const historicalEstimator = defineWaitEstimator({
+  id: "historical",
+  paramsSchema: z.object({
+    windowWeeks: z.number().int().min(1).max(52).default(VELOCITY_WEEKS),
+    maxSamples: z.number().int().positive().default(50),
+    percentiles: percentilesParam,
+  }),
+  compute: ({ history, type, basis, now }, params) => {
+    const windowStart = now.getTime() - params.windowWeeks * WEEK_MS;
+    const waits = history
+      .filter(
+        (pr) =>
+          pr.type === type && new Date(pr.mergedAt).getTime() > windowStart,
+      )
+      .slice(-params.maxSamples)
+      .map((pr) => resolveWaitDays(pr, basis))
+      .sort((a, b) => a - b);
+
+    return {
+      sampleSize: waits.length,
+      windowDays: params.windowWeeks * 7,
+      waitAt: (quantile) => percentile(waits, quantile),
+    };
+  },
+});
+
+/**
+ * Little's law estimate: a new submission joins behind `queueSize` PRs and the
+ * queue drains at the weekly merge rate. A slower week means a longer wait, so
+ * the p80 wait uses the 20th percentile of the weekly merge counts in the
+ * window, and so on. Slow-week rates are floored like the merge projections,
+ * so only a window without merges leaves the wait unbounded (`null`).
+ */
+const throughputEstimator = defineWaitEstimator({
+  id: "throughput",
+  paramsSchema: z.object({
+    windowWeeks: z.number().int().min(1).max(52).default(VELOCITY_WEEKS),
+    percentiles: percentilesParam,
+  }),
+  compute: ({ history, type, queueSize, now }, params) => {
+    const weekly = countWeeklyMerges(
+      history,
+      type,
+      now,
+      params.windowWeeks,
+    ).sort((a, b) => a - b);
+
+    return {
+      sampleSize: weekly.length,
+      windowDays: params.windowWeeks * 7,
+      waitAt: (quantile) => {
+        const perWeek = weeklyRateAt(weekly, 1 - quantile);
+        return perWeek !== null ? ((queueSize + 1) / perWeek) * 7 : null;
+      },
+    };
+  },
+});
+
+/**
+ * Survival estimate that counts PRs still waiting as censored observations, so
+ * the longest waits are not left out just because they have not ended yet.
+ *
+ * The cohort is every PR of the type whose wait started within the window:
+ * merged PRs contribute their wait, open queue entries the time waited so far.
+ * A percentile the curve never reaches is `null`.
+ */
+const survivalEstimator = defineWaitEstimator({
+  id: "survival",
+  paramsSchema: z.object({
+    // Capped at the 12-month merged history, the longest span with complete data.
+    windowDays: z.number().int().min(1).max(365).default(365),
+    percentiles: percentilesParam,
+  }),
+  compute: ({ history, openPrs, type, basis, now }, params) => {
+    const windowStart = now.getTime() - params.windowDays * DAY_MS;
+    const inCohort = (pr: PullRequest | MergedPullRequest) =>
+      pr.type === type &&
+      new Date(resolveWaitStart(pr, basis)).getTime() >= windowStart;
+
+    const observations: SurvivalObservation[] = [
+      ...history.filter(inCohort).map((pr) => ({
+        days: resolveWaitDays(pr, basis),
+        merged: true,
+      })),
+      ...openPrs.filter(inCohort).map((pr) => ({
+        days: Math.max(
+          0,
+          (now.getTime() - new Date(resolveWaitStart(pr, basis)).getTime()) /
+            DAY_MS,
+        ),
+        merged: false,
+      })),
+    ];
+    const curve = kaplanMeierCurve(observations);
+
+    return {
+      sampleSize: observations.length,
+      windowDays: params.windowDays,
+      waitAt: (quantile) =>
+        curve.find((step) => step.surviving <= 1 - quantile + 1e-9)?.days ??
+        null,
+    };
+  },
+});
+
+const WAIT_ESTIMATORS = new Map(
+  [historicalEstimator, throughputEstimator, survivalEstimator].map(
+    (estimator) => [estimator.id, estimator],
+  ),
+);
+
+// Historical first: it stays the headline, with the others reported alongside.
+const DEFAULT_WAIT_ESTIMATORS: NonNullable<QueueConfig["estimators"]> = [
+  { id: "historical" },
+  { id: "throughput" },
+  { id: "survival" },
+];
+
+/**
+ * Configure the wait estimators enabled by the queue configuration, in the
+ * configured order. Without an `estimators` list, every registered estimator
+ * runs with its default parameters.
+ *
+ * @param config - Queue configuration.
+ * @returns Estimators ready to run for each queue type.
+ * @throws {Error} When an id is not registered or its parameters are invalid.
+ */
+export function resolveWaitEstimators(
+  config: QueueConfig,
+): ConfiguredWaitEstimator[] {
+  return (config.estimators ?? DEFAULT_WAIT_ESTIMATORS).map(
+    ({ id, params }) => {
+      const estimator = WAIT_ESTIMATORS.get(id);
+      if (!estimator) {
+        throw new Error(
+          `Unknown wait estimator "${id}"; expected one of ${[...WAIT_ESTIMATORS.keys()].join(", ")}`,
+        );
+      }
+      return estimator.configure(params);
     },
-    isHighVariance,
+  );
+}
+
+/**
+ * Estimate how long a new submission of a queue type will wait.
+ *
+ * Every enabled estimator is run and reported under `estimates`, keyed by id.
+ * The headline figures come from the first estimator, in configured order,
+ * that gives a median; `method` names it.
+ *
+ * @param history - Merged pull requests used for waits and throughput.
+ * @param openPrs - Current open queue entries, the backlog and censored waits.
+ * @param type - Queue type id.
+ * @param estimators - Enabled estimators from {@link resolveWaitEstimators}.
+ * @param basis - Duration the historical and survival estimates measure.
+ * @param now - Reference time for the trailing windows.
+ * @throws {Error} When no estimator is enabled.
+ */
+export function computeWaitEstimate(
+  history: MergedPullRequest[],
+  openPrs: PullRequest[],
+  type: string,
+  estimators: ConfiguredWaitEstimator[],
+  basis: WaitBasis = "created",
+  now: Date = new Date(),
+): WaitEstimate {
+  const input: WaitEstimatorInput = {
+    history,
+    openPrs,
+    type,
+    basis,
+    queueSize: openPrs.filter((pr) => pr.type === type).length,
+    now,
+  };
+  const results = estimators.map((estimator) => ({
+    id: estimator.id,
+    value: estimator.estimate(input),
+  }));
+  const headline =
+    results.find((result) => result.value.p50 !== null) ?? results[0];
+  if (!headline) {
+    throw new Error("No wait estimator is enabled");
+  }
+
+  return {
+    ...headline.value,
+    method: headline.id,
+    estimates: Object.fromEntries(
+      results.map((result) => [result.id, result.value]),
+    ),
+  };
+}
+
+const FORECAST_RUNS = 2000;
+const FORECAST_HORIZON_WEEKS = 104;
+const FORECAST_SEED = 20240501;
+
+interface MergeForecastOptions {
+  runs?: number;
+  horizonWeeks?: number;
+  /** Seed for the random source; the same seed yields the same curve. */
+  seed?: number;
+  now?: Date;
+}
+
+/**
+ * Mulberry32: a small, fast 32-bit PRNG, good enough for resampling.
+ *
+ * @returns A function yielding floats in `[0, 1)`.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
 }
 
+/**
+ * Forecast when a new submission of a queue type would be merged by Monte
+ * Carlo simulation.
+ *
+ * Each run drains the current queue plus the new submission by drawing every
+ * simulated week's merge count at random from the weekly counts of the
+ * velocity window. The week in which the new submission is reached is
+ * recorded, and runs still waiting at the horizon count as unmerged.
+ *
+ * @param history - Merged pull requests supplying weekly throughput samples.
+ * @param type - Queue type id.
+ * @param queueSize - PRs of the type currently waiting in the ready queue.
+ * @param options - Run count, horizon, seed and reference time.
+ * @returns Cumulative merge probability per week, or `null` without merges to resample.
+ */
+export function simulateMergeForecast(
+  history: MergedPullRequest[],
+  type: string,
+  queueSize: number,
+  options: MergeForecastOptions = {},
+): MergeForecast | null {
+  const runs = options.runs ?? FORECAST_RUNS;
+  const horizonWeeks = options.horizonWeeks ?? FORECAST_HORIZON_WEEKS;
+  const seed = options.seed ?? FORECAST_SEED;
+  const samples = countWeeklyMerges(history, type, options.now ?? new Date());
+  if (!samples.some((count) => count > 0)) {
+    return null;
+  }
+
+  const random = createRandom(seed);
+  const mergedInWeek = new Array<number>(horizonWeeks).fill(0);
+  const position = queueSize + 1;
+  for (let run = 0; run < runs; run += 1) {
+    let drained = 0;
+    for (let week = 0; week < horizonWeeks; week += 1) {
+      drained += samples[Math.floor(random() * samples.length)] ?? 0;
+      if (drained >= position) {
+        mergedInWeek[week] = (mergedInWeek[week] ?? 0) + 1;
+        break;
+      }
+    }
+  }
+
+  const cumulative: number[] = [];
+  let finished = 0;
+  for (const count of mergedInWeek) {
+    finished += count;
+    cumulative.push(Math.round((finished / runs) * 1000) / 1000);
+    if (finished === runs) break;
+  }
+
+  return { runs, seed, horizonWeeks, cumulative };
+}
+
+/**
+ * When a PR reached the ready queue, for inflow counts. Merged PRs that never
+ * carried the label did not pass through the queue; open queue entries without
+ * known label history fall back to their creation date.
+ */
+function resolveReadyAt(pr: PullRequest | MergedPullRequest): string | null {
+  if ("mergedAt" in pr) {
+    return pr.readyForReviewAt ?? null;
+  }
+  return pr.readyForReviewAt ?? pr.createdAt;
+}
+
+/**
+ * Count merges and queue arrivals per type for each week with activity.
+ *
+ * Inflow counts PRs that first reached the ready label in a week and are now
+ * either still open or merged; PRs closed without merge are left out of both
+ * sides, so summing the net change over time tracks the queue's growth.
+ *
+ * @param mergedPrs - Merged history.
+ * @param openPrs - Current open queue entries.
+ * @param typeIds - Configured queue type ids.
+ * @param weeks - Number of trailing weeks to cover.
+ * @returns Week starts (oldest first) with per-type merges, inflow and net change.
+ */
 export function buildWeeklyMergedSummary(
   mergedPrs: MergedPullRequest[],
+  openPrs: PullRequest[],
+  typeIds: string[],
   weeks: number = 12,
 ): WeeklyMergedSummary {
-  const weeklyBuckets: Record<string, { plugins: number; themes: number }> = {};
+  const mergedBuckets: Record<string, Record<string, number>> = {};
+  const inflowBuckets: Record<string, Record<string, number>> = {};
 
   const now = new Date();
   const cutoff = new Date(now.getTime() - weeks * 7 * 24 * 60 * 60 * 1000);
 
-  mergedPrs.forEach((pr) => {
-    const mergedDate = new Date(pr.mergedAt);
-    if (mergedDate < cutoff) {
+  const addToWeek = (
+    buckets: Record<string, Record<string, number>>,
+    at: string,
+    type: string,
+  ) => {
+    const date = new Date(at);
+    if (date < cutoff || !typeIds.includes(type)) {
       return;
     }
 
-    const weekStart = new Date(mergedDate);
-    weekStart.setDate(mergedDate.getDate() - weekStart.getDay());
+    const weekStart = new Date(date);
+    weekStart.setDate(date.getDate() - weekStart.getDay());
     weekStart.setHours(0, 0, 0, 0);
     const key = weekStart.toISOString();
 
-    if (!weeklyBuckets[key]) {
-      weeklyBuckets[key] = { plugins: 0, themes: 0 };
-    }
+    const bucket = (buckets[key] ??= {});
+    bucket[type] = (bucket[type] ?? 0) + 1;
+  };
 
-    if (pr.type === "plugin") {
-      weeklyBuckets[key].plugins += 1;
-    } else if (pr.type === "theme") {
-      weeklyBuckets[key].themes += 1;
+  for (const pr of mergedPrs) {
+    addToWeek(mergedBuckets, pr.mergedAt, pr.type);
+  }
+  for (const pr of [...mergedPrs, ...openPrs]) {
+    const readyAt = resolveReadyAt(pr);
+    if (readyAt) {
+      addToWeek(inflowBuckets, readyAt, pr.type);
     }
-  });
+  }
 
-  const weekStarts = Object.keys(weeklyBuckets).sort();
-  const pluginCounts = weekStarts.map(
-    (week) => weeklyBuckets[week]?.plugins ?? 0,
-  );
-  const themeCounts = weekStarts.map(
-    (week) => weeklyBuckets[week]?.themes ?? 0,
+  const weekStarts = [
+    ...new Set([...Object.keys(mergedBuckets), ...Object.keys(inflowBuckets)]),
+  ].sort();
+  const series = (buckets: Record<string, Record<string, number>>) =>
+    Object.fromEntries(
+      typeIds.map((type) => [
+        type,
+        weekStarts.map((week) => buckets[week]?.[type] ?? 0),
+      ]),
+    );
+  const counts = series(mergedBuckets);
+  const inflow = series(inflowBuckets);
+  const netChange = Object.fromEntries(
+    typeIds.map((type) => [
+      type,
+      weekStarts.map(
+        (_, index) =>
+          (inflow[type]?.[index] ?? 0) - (counts[type]?.[index] ?? 0),
+      ),
+    ]),
   );
 
   return {
     weekStarts,
-    pluginCounts,
-    themeCounts,
+    counts,
+    inflow,
+    netChange,
+  };
+}
+
+/**
+ * Count merges of the given queue type per week, newest week first.
+ *
+ * Weeks without merges are reported as zero so the series can be used for
+ * throughput statistics directly.
+ */
+function countWeeklyMerges(
+  history: MergedPullRequest[],
+  type: string,
+  now: Date,
+  weeks: number = VELOCITY_WEEKS,
+): number[] {
+  const counts = new Array<number>(weeks).fill(0);
+  for (const pr of history) {
+    if (pr.type !== type) continue;
+    const age = now.getTime() - new Date(pr.mergedAt).getTime();
+    const bucket = Math.floor(age / WEEK_MS);
+    if (bucket >= 0 && bucket < weeks) {
+      counts[bucket] = (counts[bucket] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// Slow-week rates are floored at this share of the mean weekly merge rate, so
+// a run of weeks without merges does not leave the range without a bound.
+const MIN_RATE_SHARE = 0.25;
+
+/**
+ * Weekly merge rate at a percentile of the weekly counts, floored at a share
+ * of their mean. `null` only when nothing was merged in the window.
+ *
+ * @param sortedWeekly - Weekly merge counts in ascending order.
+ * @param quantile - Percentile of the counts, e.g. `0.2` for a slow week.
+ */
+function weeklyRateAt(sortedWeekly: number[], quantile: number): number | null {
+  const mean =
+    sortedWeekly.reduce((sum, val) => sum + val, 0) /
+    Math.max(sortedWeekly.length, 1);
+  if (mean <= 0) {
+    return null;
+  }
+  return Math.max(
+    percentile(sortedWeekly, quantile) ?? 0,
+    mean * MIN_RATE_SHARE,
+  );
+}
+
+/**
+ * Mean weekly merge count of a queue type over the trailing velocity window,
+ * plus the rates of a fast (80th percentile) and a slow (20th percentile)
+ * week. A fast week is never slower than the mean, nor a slow week faster, so
+ * the range always brackets the estimate.
+ */
+function measureWeeklyThroughput(
+  history: MergedPullRequest[],
+  type: string,
+  now: Date,
+): { mean: number; fast: number | null; slow: number | null } {
+  const weekly = countWeeklyMerges(history, type, now).sort((a, b) => a - b);
+  const mean = weekly.reduce((sum, val) => sum + val, 0) / weekly.length;
+  const fast = weeklyRateAt(weekly, 0.8);
+  const slow = weeklyRateAt(weekly, 0.2);
+  return {
+    mean,
+    fast: fast === null ? null : Math.max(fast, mean),
+    slow: slow === null ? null : Math.min(slow, mean),
+  };
+}
+
+function projectDate(anchor: Date, days: number | null): string | null {
+  if (days === null || !Number.isFinite(days)) {
+    return null;
+  }
+  return new Date(anchor.getTime() + Math.round(days) * DAY_MS).toISOString();
+}
+
+/**
+ * Annotate each open pull request with its position in its type's queue and a
+ * projected merge date derived from recent weekly throughput.
+ *
+ * The queue is assumed to drain oldest-first at the mean weekly merge rate;
+ * the range uses the rates of a fast and a slow week, the latter floored above
+ * zero so quiet weeks do not leave the range open-ended.
+ * Projected dates are anchored to the start of the current UTC day so the
+ * dataset version stays stable between hourly ingest runs.
+ *
+ * @param openPrs - Open queue entries sorted oldest first.
+ * @param history - Merged pull requests used to derive throughput.
+ * @param now - Reference time for the throughput window.
+ * @returns Copies of the open entries with queue position and projection set.
+ */
+export function computeQueueProjections(
+  openPrs: PullRequest[],
+  history: MergedPullRequest[],
+  now: Date = new Date(),
+): PullRequest[] {
+  const anchor = new Date(now);
+  anchor.setUTCHours(0, 0, 0, 0);
+
+  const queueSizes = new Map<string, number>();
+  for (const pr of openPrs) {
+    queueSizes.set(pr.type, (queueSizes.get(pr.type) ?? 0) + 1);
+  }
+
+  const throughput = new Map<
+    string,
+    ReturnType<typeof measureWeeklyThroughput>
+  >();
+  for (const type of queueSizes.keys()) {
+    throughput.set(type, measureWeeklyThroughput(history, type, now));
+  }
+
+  const positions = new Map<string, number>();
+  return openPrs.map((pr) => {
+    const position = (positions.get(pr.type) ?? 0) + 1;
+    positions.set(pr.type, position);
+
+    const rate = throughput.get(pr.type) ?? {
+      mean: 0,
+      fast: null,
+      slow: null,
+    };
+    const daysAtRate = (perWeek: number | null) =>
+      perWeek !== null && perWeek > 0 ? (position / perWeek) * 7 : null;
+
+    const projectedMerge: MergeProjection = {
+      estimatedAt: projectDate(anchor, daysAtRate(rate.mean)),
+      earliestAt: projectDate(anchor, daysAtRate(rate.fast)),
+      latestAt: projectDate(anchor, daysAtRate(rate.slow)),
+    };
+
+    return {
+      ...pr,
+      queuePosition: position,
+      queueSize: queueSizes.get(pr.type) ?? position,
+      projectedMerge,
+    };
+  });
+}
+
+/**
+ * Share of resolved submissions of a queue type that were closed without merge.
+ *
+ * Both datasets are expected to cover the same lookback window; the rate is
+ * `null` when nothing was resolved in that window.
+ */
+export function computeClosureRate(
+  merged: MergedPullRequest[],
+  closed: ClosedPullRequest[],
+  type: string,
+): ClosureRate {
+  const mergedCount = merged.filter((pr) => pr.type === type).length;
+  const closedCount = closed.filter((pr) => pr.type === type).length;
+  const resolved = mergedCount + closedCount;
+  return {
+    closed: closedCount,
+    merged: mergedCount,
+    rate: resolved > 0 ? closedCount / resolved : null,
   };
 }
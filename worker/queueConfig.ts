@@ -0,0 +1,102 @@
+import { queueConfigSchema, type QueueConfig } from "../shared/queueSchema.ts";
+import { resolveWaitEstimators } from "./metrics.ts";
+
+const QUEUE_CONFIG_KEY = "queue-config";
+
+/**
+ * Configuration for the Obsidian community plugin and theme release queue.
+ */
+const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  owner: "obsidianmd",
+  repo: "obsidian-releases",
+  readyLabel: "Ready for review",
+  stateLabels: ["Ready for review", "Changes requested", "Validation failed"],
+  types: [
+    {
+      id: "plugin",
+      label: "plugin",
+      displayName: "Plugin",
+      pluralName: "Plugins",
+      color: "rgb(2, 132, 199)",
+      accent: "var(--accent-plugin)",
+      manifestFile: "community-plugins.json",
+    },
+    {
+      id: "theme",
+      label: "theme",
+      displayName: "Theme",
+      pluralName: "Themes",
+      color: "rgb(219, 39, 119)",
+      accent: "var(--accent-theme)",
+      manifestFile: "community-css-themes.json",
+    },
+  ],
+};
+
+function parseQueueConfig(raw: unknown, source: string): QueueConfig {
+  const parsed = queueConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid queue configuration in ${source}: ${parsed.error.message}`,
+    );
+  }
+  try {
+    resolveWaitEstimators(parsed.data);
+  } catch (error) {
+    throw new Error(
+      `Invalid queue configuration in ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the queue configuration for this deployment.
+ *
+ * A JSON document in the `QUEUE_CONFIG` variable takes precedence, followed by
+ * the `queue-config` record in the queue KV namespace. Without either, the
+ * Obsidian release queue defaults apply.
+ *
+ * @param env - Worker bindings including KV namespace and variables.
+ * @returns The validated queue configuration.
+ * @throws {Error} When a configured value is not valid JSON or fails validation.
+ */
+export async function loadQueueConfig(env: Env): Promise<QueueConfig> {
+  const fromEnv = env.QUEUE_CONFIG?.trim();
+  if (fromEnv) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fromEnv);
+    } catch (error) {
+      throw new Error("QUEUE_CONFIG is not valid JSON", { cause: error });
+    }
+    return parseQueueConfig(raw, "QUEUE_CONFIG");
+  }
+
+  const stored = await env.QUEUE_DATA.get(QUEUE_CONFIG_KEY, { type: "json" });
+  if (stored) {
+    return parseQueueConfig(stored, `KV record "${QUEUE_CONFIG_KEY}"`);
+  }
+
+  return DEFAULT_QUEUE_CONFIG;
+}
+
+/**
+ * Determine which configured review queue a PR belongs to.
+ *
+ * GitHub PR labels contain the data we need; this helper maps the first label
+ * matching a configured queue type to that type's id. If no recognised label is
+ * present we fall back to `"unknown"` which is excluded from queue totals.
+ *
+ * @param labels - Label names attached to the PR.
+ * @param config - Queue configuration listing the known types.
+ * @returns The queue type id if present, otherwise `"unknown"`.
+ */
+export function resolveTypeFromLabels(
+  labels: string[],
+  config: QueueConfig,
+): string {
+  const match = config.types.find((type) => labels.includes(type.label));
+  return match?.id ?? "unknown";
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import {
+  getGitHubInstallationToken,
+  invalidateGitHubInstallationToken,
+} from "./githubAuth.ts";
+
+/**
+ * Transport behind the Octokit client used by ingest and backfill.
+ *
+ * Octokit routes every REST and GraphQL call through `fetch`, so swapping the
+ * transport keeps the client's hooks, `RequestError` handling (304s, retries)
+ * and rate-limit tracking identical whether data comes from GitHub or from
+ * recorded fixtures.
+ */
+export interface QueueDataSource {
+  /** Short label used in logs, e.g. `live` or `replay`. */
+  readonly name: string;
+  fetch(url: string, init: RequestInit): Promise<Response>;
+  /** Bearer token for GitHub, or `null` when the source needs none. */
+  getToken(): Promise<string | null>;
+  /** Called when GitHub rejects the token with 401/403. */
+  invalidateToken(): void;
+}
+
+const recordedExchangeSchema = z.object({
+  sequence: z.number().int().nonnegative(),
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    ifNoneMatch: z.string().nullable(),
+    body: z.unknown(),
+  }),
+  response: z
+    .object({
+      status: z.number().int(),
+      headers: z.record(z.string(), z.string()),
+      body: z.unknown(),
+    })
+    .nullable(),
+  error: z.string().nullable(),
+});
+
+export type RecordedExchange = z.infer<typeof recordedExchangeSchema>;
+
+// Never persist credentials or cookies into fixture files.
+const REDACTED_RESPONSE_HEADERS = new Set(["set-cookie"]);
+// The Fetch API rejects a body on these statuses.
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function parseBody(text: string | null): unknown {
+  if (text === null || text === "") return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+function serialiseBody(body: unknown): string | null {
+  if (body === null || body === undefined) return null;
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
+
+function readHeader(init: RequestInit, name: string): string | null {
+  const value = new Headers(init.headers).get(name);
+  return value === null || value === "" ? null : value;
+}
+
+/**
+ * Replay failures answer 501, which the ingest retry policy does not retry, so
+ * a stale fixture set fails fast with the mismatch as the error message.
+ */
+function replayMismatch(message: string): Response {
+  return Response.json({ message }, { status: 501 });
+}
+
+function describeRequest(method: string, url: string): string {
+  const { pathname } = new URL(url);
+  return `${method.toUpperCase()} ${pathname}`;
+}
+
+/**
+ * Data source backed by api.github.com, authenticated as the GitHub App
+ * installation.
+ *
+ * @param env - Worker bindings including the GitHub App secrets.
+ */
+export function createLiveDataSource(env: Env): QueueDataSource {
+  return {
+    name: "live",
+    fetch: (url, init) => fetch(url, init),
+    getToken: () => getGitHubInstallationToken(env),
+    invalidateToken: invalidateGitHubInstallationToken,
+  };
+}
+
+/**
+ * Wrap a data source and hand every exchange to `save` as it completes.
+ *
+ * Exchanges are numbered in call order, including failed attempts, so a replay
+ * sees the same sequence of 304s, 5xx responses and network errors. Response
+ * bodies are stored as parsed JSON when possible to keep fixtures readable.
+ *
+ * @param upstream - Source that actually answers the requests.
+ * @param save - Persists one exchange, e.g. as a fixture file.
+ */
+export function createRecordingDataSource(
+  upstream: QueueDataSource,
+  save: (exchange: RecordedExchange) => Promise<void>,
+): QueueDataSource {
+  let sequence = 0;
+
+  return {
+    name: `record:${upstream.name}`,
+    async fetch(url, init) {
+      const method = init.method ?? "GET";
+      const request = {
+        method,
+        url,
+        ifNoneMatch: readHeader(init, "if-none-match"),
+        body: parseBody(typeof init.body === "string" ? init.body : null),
+      };
+      const current = sequence;
+      sequence += 1;
+
+      let response: Response;
+      try {
+        response = await upstream.fetch(url, init);
+      } catch (error) {
+        await save({
+          sequence: current,
+          request,
+          response: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      const text = NULL_BODY_STATUSES.has(response.status)
+        ? null
+        : await response.text();
+      const headers: Record<string, string> = {};
+      for (const [name, value] of response.headers) {
+        if (!REDACTED_RESPONSE_HEADERS.has(name)) {
+          headers[name] = value;
+        }
+      }
+      await save({
+        sequence: current,
+        request,
+        response: { status: response.status, headers, body: parseBody(text) },
+        error: null,
+      });
+
+      return new Response(text, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    },
+    getToken: () => upstream.getToken(),
+    invalidateToken: () => upstream.invalidateToken(),
+  };
+}
+
+/**
+ * Serve recorded exchanges back in order without touching the network.
+ *
+ * Each request must match the method and path of the next recorded exchange;
+ * query strings and bodies are not compared because search qualifiers embed
+ * the current date. Recorded network errors are rethrown so retry handling
+ * runs exactly as it did while recording.
+ *
+ * @param exchanges - Fixtures, typically loaded from files; validated here.
+ */
+export function createReplayDataSource(
+  exchanges: readonly unknown[],
+): QueueDataSource {
+  const queue = exchanges
+    .map((exchange) => recordedExchangeSchema.parse(exchange))
+    .sort((a, b) => a.sequence - b.sequence);
+  let cursor = 0;
+
+  return {
+    name: "replay",
+    async fetch(url, init) {
+      const actual = describeRequest(init.method ?? "GET", url);
+      const next = queue[cursor];
+      if (!next) {
+        return replayMismatch(
+          `[Replay] No recorded exchange left for ${actual} (served ${cursor}).`,
+        );
+      }
+      const expected = describeRequest(next.request.method, next.request.url);
+      if (expected !== actual) {
+        return replayMismatch(
+          `[Replay] Exchange ${next.sequence} was recorded for ${expected}, got ${actual}.`,
+        );
+      }
+      cursor += 1;
+
+      if (!next.response) {
+        throw new TypeError(next.error ?? "Recorded network error");
+      }
+      const { status, headers, body } = next.response;
+      return new Response(
+        NULL_BODY_STATUSES.has(status) ? null : serialiseBody(body),
+        { status, headers },
+      );
+    },
+    getToken: async () => null,
+    invalidateToken: () => {},
+  };
+}
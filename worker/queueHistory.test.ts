@@ -0,0 +1,57 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { QueueConfig, QueueSummary } from "../shared/queueSchema.ts";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import { loadQueueConfig } from "./queueConfig.ts";
+import { updateQueueHistory } from "./queueHistory.ts";
+
+const TOTALS: QueueSummary["totals"] = {
+  readyTotal: 3,
+  byType: { plugin: 2, theme: 1 },
+  submissionsTotal: 4,
+  byState: { "Ready for review": 3, "Changes requested": 1 },
+};
+
+describe("updateQueueHistory", () => {
+  let config: QueueConfig;
+
+  beforeAll(async () => {
+    config = await loadQueueConfig(createMemoryEnv());
+  });
+
+  const record = (
+    previous: ReturnType<typeof updateQueueHistory> | null,
+    recordedAt: string,
+    totals = TOTALS,
+  ) =>
+    updateQueueHistory({
+      previous,
+      config,
+      totals,
+      mergedPrs: [],
+      lookbackStart: "2025-10-19",
+      recordedAt,
+    });
+
+  it("keeps today's row as it was while the counts are unchanged", () => {
+    const first = record(null, "2026-10-19T09:00:00Z");
+    const second = record(first, "2026-10-19T10:00:00Z");
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(second[0]?.recordedAt).toBe("2026-10-19T09:00:00Z");
+  });
+
+  it("rewrites today's row when the counts change", () => {
+    const first = record(null, "2026-10-19T09:00:00Z");
+    const second = record(first, "2026-10-19T10:00:00Z", {
+      ...TOTALS,
+      readyTotal: 2,
+      byType: { plugin: 1, theme: 1 },
+    });
+
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({
+      recordedAt: "2026-10-19T10:00:00Z",
+      readyTotal: 2,
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  MergedPullRequest,
+  QueueConfig,
+  QueueHistoryEntry,
+  QueueSummary,
+} from "../shared/queueSchema.ts";
+
+export const QUEUE_HISTORY_DATASET = "queue-history";
+
+// Three years of daily rows stay well under the KV value size limit.
+const HISTORY_RETENTION_DAYS = 3 * 365;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface QueueHistoryInput {
+  /** Rows stored by the previous run, oldest first. */
+  previous: QueueHistoryEntry[] | null;
+  config: QueueConfig;
+  totals: QueueSummary["totals"];
+  mergedPrs: MergedPullRequest[];
+  /** First day (YYYY-MM-DD) of the merged history window. */
+  lookbackStart: string;
+  recordedAt: string;
+}
+
+function countMergesByDay(
+  config: QueueConfig,
+  mergedPrs: MergedPullRequest[],
+): Map<string, Record<string, number>> {
+  const typeIds = new Set(config.types.map((type) => type.id));
+  const byDay = new Map<string, Record<string, number>>();
+  for (const pr of mergedPrs) {
+    if (!typeIds.has(pr.type)) continue;
+    const day = pr.mergedAt.slice(0, 10);
+    const counts =
+      byDay.get(day) ??
+      Object.fromEntries(config.types.map((type) => [type.id, 0]));
+    counts[pr.type] = (counts[pr.type] ?? 0) + 1;
+    byDay.set(day, counts);
+  }
+  return byDay;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Record today's queue size in the daily history.
+ *
+ * Today's row is replaced on every run, so each day keeps the last snapshot
+ * taken on it. Its `recordedAt` only moves when the counts change, so hourly
+ * runs over an unchanged queue leave the dataset version alone. Merge counts
+ * of days inside the merged history window are recomputed from `mergedPrs`,
+ * which catches merges after a day's last run; older days keep their stored
+ * counts. Rows past the retention period are dropped.
+ *
+ * @param input - Previous rows, current totals and the merged history.
+ * @returns Daily rows ordered by date (oldest first).
+ */
+export function updateQueueHistory(
+  input: QueueHistoryInput,
+): QueueHistoryEntry[] {
+  const today = input.recordedAt.slice(0, 10);
+  const { readyTotal, byType, byState } = input.totals;
+  const notReady = byState
+    ? Object.fromEntries(
+        Object.entries(byState).filter(
+          ([state]) => state !== input.config.readyLabel,
+        ),
+      )
+    : null;
+
+  const rows = new Map<string, QueueHistoryEntry>();
+  for (const row of input.previous ?? []) {
+    rows.set(row.date, row);
+  }
+  const snapshot = {
+    readyTotal,
+    byType: { ...byType },
+    ...(notReady
+      ? { notReadyTotal: sumCounts(notReady), notReadyByState: notReady }
+      : {}),
+  };
+  const stored = rows.get(today);
+  const unchanged =
+    stored !== undefined &&
+    JSON.stringify(snapshot) ===
+      JSON.stringify({
+        readyTotal: stored.readyTotal,
+        byType: stored.byType,
+        ...(stored.notReadyByState
+          ? {
+              notReadyTotal: stored.notReadyTotal,
+              notReadyByState: stored.notReadyByState,
+            }
+          : {}),
+      });
+  rows.set(today, {
+    date: today,
+    recordedAt: unchanged ? stored.recordedAt : input.recordedAt,
+    ...snapshot,
+    merged: 0,
+    mergedByType: {},
+  });
+
+  const mergesByDay = countMergesByDay(input.config, input.mergedPrs);
+  const retainFrom = new Date(
+    new Date(`${today}T00:00:00Z`).getTime() - HISTORY_RETENTION_DAYS * DAY_MS,
+  )
+    .toISOString()
+    .slice(0, 10);
+
+  return [...rows.values()]
+    .filter((row) => row.date >= retainFrom)
+    .map((row) => {
+      if (row.date < input.lookbackStart) return row;
+      const mergedByType =
+        mergesByDay.get(row.date) ??
+        Object.fromEntries(input.config.types.map((type) => [type.id, 0]));
+      return { ...row, merged: sumCounts(mergedByType), mergedByType };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
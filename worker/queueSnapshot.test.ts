@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { PullRequest } from "../shared/queueSchema.ts";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import {
+  OPEN_QUEUE_DATASET,
+  diffDataset,
+  persistDataset,
+} from "./queueSnapshot.ts";
+
+const UPDATED_AT = "2026-10-19T00:00:00Z";
+
+function openPr(id: number, title = `Add plugin: ${id}`): PullRequest {
+  return {
+    id,
+    title,
+    url: `https://github.com/obsidianmd/obsidian-releases/pull/${id}`,
+    type: "plugin",
+    createdAt: "2026-09-01T12:00:00Z",
+  };
+}
+
+const byPrNumber = (pr: PullRequest) => pr.id;
+
+describe("diffDataset", () => {
+  it("reports every row as added when nothing is stored", async () => {
+    const env = createMemoryEnv();
+    const diff = await diffDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      [openPr(1), openPr(2)],
+      null,
+      byPrNumber,
+    );
+
+    expect(diff).toMatchObject({
+      currentVersion: null,
+      changed: true,
+      added: [1, 2],
+      removed: [],
+      modified: [],
+    });
+  });
+
+  it("reports no rows when the stored version matches", async () => {
+    const env = createMemoryEnv();
+    const rows = [openPr(1), openPr(2)];
+    const { pointer } = await persistDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      rows,
+      null,
+      { updatedAt: UPDATED_AT },
+    );
+
+    const diff = await diffDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      rows,
+      pointer,
+      byPrNumber,
+    );
+
+    expect(diff).toMatchObject({
+      currentVersion: pointer.version,
+      nextVersion: pointer.version,
+      changed: false,
+      added: [],
+      removed: [],
+      modified: [],
+    });
+  });
+
+  it("lists added, removed and modified rows against the stored dataset", async () => {
+    const env = createMemoryEnv();
+    const { pointer } = await persistDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      [openPr(1), openPr(2)],
+      null,
+      { updatedAt: UPDATED_AT },
+    );
+
+    const diff = await diffDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      [openPr(2, "Add plugin: Renamed"), openPr(3)],
+      pointer,
+      byPrNumber,
+    );
+
+    expect(diff).toMatchObject({
+      changed: true,
+      added: [3],
+      removed: [1],
+      modified: [2],
+    });
+  });
+});
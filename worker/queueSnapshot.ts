@@ -0,0 +1,248 @@
+import {
+  buildWeeklyMergedSummary,
+  computeClosureRate,
+  computeWaitEstimate,
+  resolveWaitEstimators,
+  simulateMergeForecast,
+} from "./metrics.ts";
+import {
+  buildDatasetPointer,
+  readDatasetJSON,
+  writeDatasetJSON,
+  type DatasetPointer,
+} from "./datasetCache.ts";
+import type {
+  ClosedPullRequest,
+  MergedPullRequest,
+  PullRequest,
+  QueueConfig,
+  QueueSummary,
+} from "../shared/queueSchema.ts";
+
+export const OPEN_QUEUE_DATASET = "queue-open";
+export const MERGED_HISTORY_DATASET = "queue-merged";
+export const CLOSED_HISTORY_DATASET = "queue-closed";
+
+type QueueSummaryMetrics = Pick<
+  QueueSummary,
+  "totals" | "waitEstimates" | "weeklyMerged" | "closureRates" | "forecasts"
+>;
+
+interface PersistDatasetOptions {
+  updatedAt: string;
+  baseUrl?: string | undefined;
+  dryRun?: boolean;
+}
+
+interface PersistDatasetResult {
+  pointer: DatasetPointer;
+  updated: boolean;
+}
+
+export interface DatasetDiff {
+  dataset: string;
+  currentVersion: string | null;
+  nextVersion: string;
+  changed: boolean;
+  added: (number | string)[];
+  removed: (number | string)[];
+  modified: (number | string)[];
+}
+
+export function normalizeBaseUrl(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  try {
+    const normalized = new URL(raw);
+    return normalized.toString();
+  } catch (error) {
+    console.warn(
+      `[Ingest] Ignoring invalid PUBLIC_BASE_URL value "${raw}":`,
+      error,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Produce a deterministic hash for the given string content.
+ *
+ * Cloudflare Workers expose the Web Crypto API, enabling us to generate a
+ * SHA-256 hex digest equal to what browsers or Node produce.
+ *
+ * @param value - The input string to hash.
+ * @returns Hex-encoded SHA-256 digest.
+ */
+async function hashString(value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(value);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  const bytes = Array.from(new Uint8Array(digest));
+  return bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Store a dataset under its content hash unless that version is already current.
+ *
+ * With `dryRun` set nothing is written; the returned pointer describes the
+ * version that would have been published and `updated` stays `false`.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param dataset - Dataset name, e.g. `queue-open`.
+ * @param rows - Dataset content to persist.
+ * @param previous - Pointer currently referenced by the summary, if any.
+ * @param options - Timestamp and optional public base URL for the pointer.
+ * @returns The pointer for the stored content and whether a write happened.
+ */
+export async function persistDataset(
+  env: Env,
+  dataset: string,
+  rows: unknown[],
+  previous: DatasetPointer | null,
+  options: PersistDatasetOptions,
+): Promise<PersistDatasetResult> {
+  const content = JSON.stringify(rows);
+  const version = await hashString(content);
+  if (previous && previous.version === version) {
+    return { pointer: previous, updated: false };
+  }
+
+  const writeOptions = {
+    updatedAt: options.updatedAt,
+    hash: version,
+    ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+  };
+  if (options.dryRun) {
+    return {
+      pointer: buildDatasetPointer(dataset, version, content, writeOptions),
+      updated: false,
+    };
+  }
+
+  const pointer = await writeDatasetJSON(
+    env.QUEUE_DATA,
+    dataset,
+    version,
+    rows,
+    writeOptions,
+  );
+  return { pointer, updated: true };
+}
+
+/**
+ * Compare dataset rows against the stored version, keyed per row.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param dataset - Dataset name, e.g. `queue-open`.
+ * @param rows - Candidate dataset content.
+ * @param previous - Pointer currently referenced by the summary, if any.
+ * @param keyOf - Row identity, e.g. the PR number or history date.
+ * @returns Versions plus the row keys added, removed or modified.
+ */
+export async function diffDataset<T>(
+  env: Env,
+  dataset: string,
+  rows: T[],
+  previous: DatasetPointer | null,
+  keyOf: (row: T) => number | string,
+): Promise<DatasetDiff> {
+  const nextVersion = await hashString(JSON.stringify(rows));
+  const currentVersion = previous?.version ?? null;
+  const unchanged = {
+    dataset,
+    currentVersion,
+    nextVersion,
+    changed: false,
+    added: [],
+    removed: [],
+    modified: [],
+  };
+  if (currentVersion === nextVersion) {
+    return unchanged;
+  }
+  const stored = previous
+    ? await readDatasetJSON<T[]>(env.QUEUE_DATA, dataset)
+    : null;
+
+  const before = new Map((stored ?? []).map((row) => [keyOf(row), row]));
+  const after = new Map(rows.map((row) => [keyOf(row), row]));
+  const added: (number | string)[] = [];
+  const modified: (number | string)[] = [];
+  for (const [key, row] of after) {
+    const existing = before.get(key);
+    if (!existing) {
+      added.push(key);
+    } else if (JSON.stringify(existing) !== JSON.stringify(row)) {
+      modified.push(key);
+    }
+  }
+  const removed = [...before.keys()].filter((key) => !after.has(key));
+
+  return { ...unchanged, changed: true, added, removed, modified };
+}
+
+/**
+ * Build a record keyed by queue type id.
+ */
+function mapQueueTypes<T>(
+  config: QueueConfig,
+  compute: (typeId: string) => T,
+): Record<string, T> {
+  return Object.fromEntries(
+    config.types.map((type) => [type.id, compute(type.id)]),
+  );
+}
+
+/**
+ * Derive the aggregate summary fields from the current datasets.
+ *
+ * @param config - Queue configuration listing the known types.
+ * @param openPrs - Open queue entries.
+ * @param mergedPrs - Merged history within the lookback window.
+ * @param closedPrs - Closed-without-merge history within the lookback window.
+ * @returns Queue totals, wait estimates, weekly merge and inflow counts,
+ *   closure rates and merge forecasts.
+ */
+export function buildQueueSummaryMetrics(
+  config: QueueConfig,
+  openPrs: PullRequest[],
+  mergedPrs: MergedPullRequest[],
+  closedPrs: ClosedPullRequest[],
+): QueueSummaryMetrics {
+  const typeIds = config.types.map((type) => type.id);
+  const estimators = resolveWaitEstimators(config);
+  const totals = openPrs.reduce(
+    (acc, pr) => {
+      acc.readyTotal += 1;
+      if (typeIds.includes(pr.type)) {
+        acc.byType[pr.type] = (acc.byType[pr.type] ?? 0) + 1;
+      }
+      return acc;
+    },
+    { readyTotal: 0, byType: mapQueueTypes(config, () => 0) },
+  );
+
+  return {
+    totals,
+    waitEstimates: mapQueueTypes(config, (type) =>
+      computeWaitEstimate(
+        mergedPrs,
+        openPrs,
+        type,
+        estimators,
+        config.waitBasis ?? "created",
+      ),
+    ),
+    weeklyMerged: buildWeeklyMergedSummary(mergedPrs, openPrs, typeIds),
+    closureRates: mapQueueTypes(config, (type) =>
+      computeClosureRate(mergedPrs, closedPrs, type),
+    ),
+    forecasts: mapQueueTypes(config, (type) =>
+      simulateMergeForecast(
+        mergedPrs,
+        type,
+        totals.byType[type] ?? 0,
+        config.forecastSeed !== undefined ? { seed: config.forecastSeed } : {},
+      ),
+    ),
+  };
+}
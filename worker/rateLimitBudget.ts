@@ -0,0 +1,106 @@
+import type { Octokit } from "@octokit/rest";
+import type { RateLimitQuota, RateLimitState } from "../shared/queueSchema.ts";
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+interface GraphqlRateLimit {
+  cost: number;
+  remaining: number;
+  resetAt: string;
+  limit?: number;
+  used?: number;
+}
+
+function parseHeaderInt(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = typeof value === "number" ? value : Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.trunc(parsed) : null;
+}
+
+function epochSecondsToIso(seconds: number | null): string | null {
+  return seconds === null ? null : new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Track GitHub REST and GraphQL quota observed during an ingest run.
+ *
+ * Quotas are keyed by the `x-ratelimit-resource` name GitHub reports (`core`,
+ * `search`, `graphql`, …). A quota whose reset time has passed is treated as
+ * unknown, so a stale low reading never blocks work after the window rolls
+ * over.
+ */
+export function createRateLimitBudget() {
+  const resources = new Map<string, RateLimitQuota>();
+  const deferred: string[] = [];
+  let graphqlCost = 0;
+
+  const remaining = (resource: string): number | null => {
+    const quota = resources.get(resource);
+    if (!quota) return null;
+    if (quota.resetAt && new Date(quota.resetAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return quota.remaining;
+  };
+
+  return {
+    /**
+     * Seed all quotas from `GET /rate_limit`, which does not count against them.
+     */
+    async refresh(octokit: Octokit): Promise<void> {
+      const { data } = await octokit.rest.rateLimit.get();
+      for (const [name, quota] of Object.entries(data.resources)) {
+        if (!quota) continue;
+        resources.set(name, {
+          limit: quota.limit,
+          remaining: quota.remaining,
+          used: quota.used,
+          resetAt: epochSecondsToIso(quota.reset),
+        });
+      }
+    },
+    recordHeaders(headers: ResponseHeaders): void {
+      const remainingValue = parseHeaderInt(headers["x-ratelimit-remaining"]);
+      if (remainingValue === null) return;
+      const resource = headers["x-ratelimit-resource"];
+      resources.set(typeof resource === "string" ? resource : "core", {
+        limit: parseHeaderInt(headers["x-ratelimit-limit"]),
+        remaining: remainingValue,
+        used: parseHeaderInt(headers["x-ratelimit-used"]),
+        resetAt: epochSecondsToIso(
+          parseHeaderInt(headers["x-ratelimit-reset"]),
+        ),
+      });
+    },
+    recordGraphql(rateLimit: GraphqlRateLimit): void {
+      graphqlCost += rateLimit.cost;
+      resources.set("graphql", {
+        limit: rateLimit.limit ?? resources.get("graphql")?.limit ?? null,
+        remaining: rateLimit.remaining,
+        used: rateLimit.used ?? null,
+        resetAt: rateLimit.resetAt,
+      });
+    },
+    remaining,
+    /**
+     * Whether at least `reserve` points remain; unknown quotas are assumed to fit.
+     */
+    canAfford(resource: string, reserve: number): boolean {
+      const left = remaining(resource);
+      return left === null || left >= reserve;
+    },
+    defer(phase: string): void {
+      deferred.push(phase);
+    },
+    snapshot(): RateLimitState {
+      return {
+        observedAt: new Date().toISOString(),
+        resources: Object.fromEntries(resources),
+        graphqlCost,
+        deferred: [...deferred],
+      };
+    },
+  };
+}
+
+export type RateLimitBudget = ReturnType<typeof createRateLimitBudget>;
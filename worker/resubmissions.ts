@@ -0,0 +1,289 @@
+import { z } from "zod";
+import { normalizeSubmissionTitle } from "../shared/submissionTitle.ts";
+import {
+  submissionManifestSchema,
+  type ClosedPullRequest,
+  type MergedPullRequest,
+  type PullRequest,
+  type QueueConfig,
+  type SubmissionAttempt,
+  type SubmissionManifest,
+} from "../shared/queueSchema.ts";
+
+const SUBMISSION_MANIFESTS_KEY = "submission-manifests";
+
+// PR number -> manifest entry, or null when the PR's diff adds no entry.
+// Diffs of closed and merged PRs never change, so entries are kept for as long
+// as the PR appears in a dataset.
+const submissionManifestCacheSchema = z.record(
+  z.string(),
+  submissionManifestSchema.nullable(),
+);
+
+type SubmissionManifests = Map<number, SubmissionManifest | null>;
+
+interface SubmissionCandidate {
+  id: number;
+  type: string;
+  createdAt: string;
+}
+
+interface ResolveSubmissionManifestsOptions {
+  /** Upper bound on diff lookups this run. */
+  maxLookups: number;
+  /** Checked before every lookup, e.g. against the REST rate-limit budget. */
+  canLookup: () => boolean;
+  dryRun: boolean;
+}
+
+interface ResolveSubmissionManifestsResult {
+  manifests: SubmissionManifests;
+  lookups: number;
+  /** PRs whose diff has not been read yet; they link by title meanwhile. */
+  pending: number;
+}
+
+function readStringField(source: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`).exec(
+    source,
+  );
+  if (!match?.[1]) return null;
+  try {
+    const value = (JSON.parse(match[1]) as string).trim();
+    return value === "" ? null : value;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the entry a PR adds to a community plugin or theme list from the
+ * manifest file's diff.
+ *
+ * Fields are matched individually on the added lines, so the trailing commas
+ * and partial objects of a diff hunk do not matter.
+ *
+ * @param patch - Unified diff of the manifest file from the PR files API.
+ * @returns The added entry, or `null` when it declares neither id nor name.
+ */
+export function parseManifestEntry(patch: string): SubmissionManifest | null {
+  const added = patch
+    .split("\n")
+    .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+    .map((line) => line.slice(1))
+    .join("\n");
+  const manifest: SubmissionManifest = {
+    id: readStringField(added, "id"),
+    name: readStringField(added, "name"),
+    author: readStringField(added, "author"),
+    description: readStringField(added, "description"),
+    repo: readStringField(added, "repo"),
+  };
+  return manifest.id || manifest.name ? manifest : null;
+}
+
+/**
+ * Identity of a submission: the plugin id, or the theme name for themes.
+ */
+function manifestKey(
+  type: string,
+  manifest: SubmissionManifest | null | undefined,
+): string | null {
+  const value = manifest?.id ?? manifest?.name;
+  return value ? `${type}:${value.toLowerCase()}` : null;
+}
+
+async function readSubmissionManifests(env: Env): Promise<SubmissionManifests> {
+  const raw = await env.QUEUE_DATA.get(SUBMISSION_MANIFESTS_KEY, {
+    type: "json",
+  });
+  if (!raw) return new Map();
+
+  const parsed = submissionManifestCacheSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(
+      "[Resubmissions] Stored submission manifests are malformed; starting over.",
+      parsed.error,
+    );
+    return new Map();
+  }
+  return new Map(
+    Object.entries(parsed.data).map(([id, manifest]) => [Number(id), manifest]),
+  );
+}
+
+/**
+ * Resolve the manifest entries of submission PRs, reusing cached lookups.
+ *
+ * Candidates are looked up in the order given (callers list open PRs first)
+ * and newest first within that order, until the per-run cap is reached or
+ * `canLookup` refuses. The cache is pruned to the candidates and written back
+ * unless this is a dry run.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @param config - Queue configuration; only types with a `manifestFile` are looked up.
+ * @param candidates - PR groups in lookup priority order.
+ * @param lookup - Fetches the manifest entry for one PR.
+ * @param options - Lookup cap, budget check and dry-run flag.
+ */
+export async function resolveSubmissionManifests(
+  env: Env,
+  config: QueueConfig,
+  candidates: SubmissionCandidate[][],
+  lookup: (pr: SubmissionCandidate) => Promise<SubmissionManifest | null>,
+  options: ResolveSubmissionManifestsOptions,
+): Promise<ResolveSubmissionManifestsResult> {
+  const cached = await readSubmissionManifests(env);
+  const lookupTypes = new Set(
+    config.types.filter((type) => type.manifestFile).map((type) => type.id),
+  );
+
+  const manifests: SubmissionManifests = new Map();
+  const missing: SubmissionCandidate[] = [];
+  for (const group of candidates) {
+    const newestFirst = [...group].sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt),
+    );
+    for (const pr of newestFirst) {
+      if (manifests.has(pr.id)) continue;
+      const manifest = cached.get(pr.id);
+      if (manifest !== undefined) {
+        manifests.set(pr.id, manifest);
+      } else if (lookupTypes.has(pr.type)) {
+        missing.push(pr);
+      }
+    }
+  }
+
+  let lookups = 0;
+  for (const pr of missing) {
+    if (manifests.has(pr.id)) continue;
+    if (lookups >= options.maxLookups || !options.canLookup()) break;
+    manifests.set(pr.id, await lookup(pr));
+    lookups += 1;
+  }
+
+  const pruned = manifests.size !== cached.size;
+  if (!options.dryRun && (lookups > 0 || pruned)) {
+    await env.QUEUE_DATA.put(
+      SUBMISSION_MANIFESTS_KEY,
+      JSON.stringify(Object.fromEntries(manifests)),
+    );
+  }
+
+  return {
+    manifests,
+    lookups,
+    pending: missing.filter((pr) => !manifests.has(pr.id)).length,
+  };
+}
+
+function titleKey(pr: { type: string; title: string }): string | null {
+  const normalized = normalizeSubmissionTitle(pr.title);
+  return normalized ? `${pr.type}:${normalized}` : null;
+}
+
+function appendTo<K, V>(index: Map<K, V[]>, key: K, value: V): void {
+  const list = index.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+}
+
+/**
+ * Attach manifest metadata and earlier closed-without-merge attempts to open
+ * and merged records.
+ *
+ * Two PRs are attempts at the same submission when their manifest keys match.
+ * If either key is unknown the normalized titles are compared instead; two
+ * different known keys never match. Only attempts opened before the record
+ * count. Fields a record has no data for are omitted, and fields from a cached
+ * dataset are recomputed.
+ *
+ * @param openPrs - Open queue entries.
+ * @param mergedPrs - Merged history entries.
+ * @param closedPrs - Closed-without-merge history, the pool of earlier attempts.
+ * @param manifests - Manifest entries by PR number from {@link resolveSubmissionManifests}.
+ * @returns Open and merged entries with `manifest`, `previousAttempts` and `firstSubmittedAt`.
+ */
+export function annotateSubmissions(
+  openPrs: PullRequest[],
+  mergedPrs: MergedPullRequest[],
+  closedPrs: ClosedPullRequest[],
+  manifests: SubmissionManifests,
+): { openPrs: PullRequest[]; mergedPrs: MergedPullRequest[] } {
+  const keys = new Map<number, string | null>();
+  for (const pr of [...openPrs, ...mergedPrs, ...closedPrs]) {
+    keys.set(pr.id, manifestKey(pr.type, manifests.get(pr.id)));
+  }
+
+  const byKey = new Map<string, ClosedPullRequest[]>();
+  const byTitle = new Map<string, ClosedPullRequest[]>();
+  for (const pr of closedPrs) {
+    const key = keys.get(pr.id);
+    if (key) appendTo(byKey, key, pr);
+    const title = titleKey(pr);
+    if (title) appendTo(byTitle, title, pr);
+  }
+
+  const findAttempts = (pr: {
+    id: number;
+    type: string;
+    title: string;
+    createdAt: string;
+  }): SubmissionAttempt[] => {
+    const key = keys.get(pr.id) ?? null;
+    const matches = new Map<number, ClosedPullRequest>();
+    for (const attempt of key ? (byKey.get(key) ?? []) : []) {
+      matches.set(attempt.id, attempt);
+    }
+    const title = titleKey(pr);
+    for (const attempt of title ? (byTitle.get(title) ?? []) : []) {
+      const attemptKey = keys.get(attempt.id) ?? null;
+      if (!key || !attemptKey) {
+        matches.set(attempt.id, attempt);
+      }
+    }
+
+    const createdAt = new Date(pr.createdAt).getTime();
+    return [...matches.values()]
+      .filter(
+        (attempt) =>
+          attempt.id !== pr.id &&
+          new Date(attempt.createdAt).getTime() < createdAt,
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((attempt) => ({
+        id: attempt.id,
+        url: attempt.url,
+        createdAt: attempt.createdAt,
+        closedAt: attempt.closedAt,
+      }));
+  };
+
+  const link = <T extends PullRequest | MergedPullRequest>(pr: T): T => {
+    const {
+      manifest: _manifest,
+      previousAttempts: _previousAttempts,
+      firstSubmittedAt: _firstSubmittedAt,
+      ...rest
+    } = pr;
+    const manifest = manifests.get(pr.id);
+    const attempts = findAttempts(pr);
+    const first = attempts[0];
+    return {
+      ...rest,
+      ...(manifest ? { manifest } : {}),
+      ...(first
+        ? { previousAttempts: attempts, firstSubmittedAt: first.createdAt }
+        : {}),
+    } as T;
+  };
+
+  return {
+    openPrs: openPrs.map(link),
+    mergedPrs: mergedPrs.map(link),
+  };
+}
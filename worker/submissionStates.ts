@@ -0,0 +1,92 @@
+import type { OpenSubmission, QueueConfig } from "../shared/queueSchema.ts";
+
+export const OPEN_SUBMISSIONS_DATASET = "queue-submissions";
+
+// `totals.byState` key for open submissions without any state label.
+const NO_STATE_KEY = "none";
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface StateLabelEvent {
+  action: "labeled" | "unlabeled";
+  label: string;
+  createdAt: string;
+}
+
+interface ReviewState {
+  state: string | null;
+  stateSince: string;
+  daysInState: number;
+}
+
+/**
+ * State labels tracked for open submissions, in precedence order. The ready
+ * label is appended when the configuration leaves it out.
+ */
+export function resolveStateLabels(config: QueueConfig): string[] {
+  const labels = config.stateLabels ?? [];
+  return labels.includes(config.readyLabel)
+    ? labels
+    : [...labels, config.readyLabel];
+}
+
+/**
+ * Determine a submission's review state and how long it has been in it.
+ *
+ * The state is the first tracked label the PR carries. It started when that
+ * label was last applied; a PR without any tracked label has been stateless
+ * since a tracked label was last removed. When the timeline does not reach
+ * back that far, the PR's creation date is used.
+ *
+ * @param labels - Current label names on the PR.
+ * @param events - Labeled/unlabeled events in any order.
+ * @param stateLabels - Tracked labels from {@link resolveStateLabels}.
+ * @param createdAt - PR creation timestamp, the fallback start.
+ * @param now - ISO timestamp the time in state is measured to.
+ */
+export function resolveReviewState(
+  labels: string[],
+  events: StateLabelEvent[],
+  stateLabels: string[],
+  createdAt: string,
+  now: string,
+): ReviewState {
+  const state = stateLabels.find((label) => labels.includes(label)) ?? null;
+  const relevant = events.filter((event) =>
+    state === null
+      ? event.action === "unlabeled" && stateLabels.includes(event.label)
+      : event.action === "labeled" && event.label === state,
+  );
+  const stateSince = relevant.reduce(
+    (latest, event) => (event.createdAt > latest ? event.createdAt : latest),
+    createdAt,
+  );
+
+  return {
+    state,
+    stateSince,
+    daysInState: Math.max(
+      0,
+      Math.floor(
+        (new Date(now).getTime() - new Date(stateSince).getTime()) / DAY_MS,
+      ),
+    ),
+  };
+}
+
+/**
+ * Count open submissions per tracked state label, plus `none` for PRs without
+ * one. Every tracked label is listed, including those with no PRs.
+ */
+export function countSubmissionsByState(
+  config: QueueConfig,
+  submissions: OpenSubmission[],
+): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(
+    [...resolveStateLabels(config), NO_STATE_KEY].map((key) => [key, 0]),
+  );
+  for (const submission of submissions) {
+    const key = submission.state ?? NO_STATE_KEY;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,380 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import labeledDelivery from "./__fixtures__/webhook/pull_request.labeled.json?raw";
+import mergedDelivery from "./__fixtures__/webhook/pull_request.closed-merged.json?raw";
+import closedDelivery from "./__fixtures__/webhook/pull_request.closed-unmerged.json?raw";
+import {
+  closedQueueDatasetSchema,
+  mergedQueueDatasetSchema,
+  openQueueDatasetSchema,
+  type MergedPullRequest,
+  type PullRequest,
+} from "../shared/queueSchema.ts";
+import { readDatasetJSON } from "./datasetCache.ts";
+import { createMemoryEnv } from "./memoryEnv.ts";
+import { loadQueueConfig } from "./queueConfig.ts";
+import {
+  CLOSED_HISTORY_DATASET,
+  MERGED_HISTORY_DATASET,
+  OPEN_QUEUE_DATASET,
+  buildQueueSummaryMetrics,
+  persistDataset,
+} from "./queueSnapshot.ts";
+import { readQueueSummary, writeQueueSummary } from "./queueStore.ts";
+import { acquireIngestLock, releaseIngestLock } from "./ingestLock.ts";
+import { applyQueuedWebhookEvents, handleGitHubWebhook } from "./webhook.ts";
+
+const SECRET = "webhook-test-secret";
+
+const OPEN_PR: PullRequest = {
+  id: 7001,
+  title: "Add plugin: Daily Quotes",
+  url: "https://github.com/obsidianmd/obsidian-releases/pull/7001",
+  type: "plugin",
+  createdAt: "2026-09-01T12:00:00Z",
+};
+
+const MERGED_PR: MergedPullRequest = {
+  id: 6900,
+  title: "Add plugin: Focus Timer",
+  url: "https://github.com/obsidianmd/obsidian-releases/pull/6900",
+  type: "plugin",
+  createdAt: "2026-08-01T12:00:00Z",
+  mergedAt: "2026-10-01T12:00:00Z",
+  daysToMerge: 61,
+};
+
+async function sign(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
+
+function deliver(
+  env: Env,
+  body: string,
+  signature: string | null,
+  event = "pull_request",
+): Promise<Response> {
+  const headers = new Headers({
+    "Content-Type": "application/json",
+    "X-GitHub-Event": event,
+  });
+  if (signature !== null) {
+    headers.set("X-Hub-Signature-256", signature);
+  }
+  return handleGitHubWebhook(
+    new Request("https://example.com/api/webhook/github", {
+      method: "POST",
+      headers,
+      body,
+    }),
+    env,
+  );
+}
+
+async function seedSnapshot(
+  env: Env,
+  open: PullRequest[] = [OPEN_PR],
+): Promise<void> {
+  const config = await loadQueueConfig(env);
+  const options = { updatedAt: "2026-10-18T00:00:00.000Z" };
+  const merged = [MERGED_PR];
+  const openQueue = await persistDataset(
+    env,
+    OPEN_QUEUE_DATASET,
+    open,
+    null,
+    options,
+  );
+  const mergedHistory = await persistDataset(
+    env,
+    MERGED_HISTORY_DATASET,
+    merged,
+    null,
+    options,
+  );
+  const closedHistory = await persistDataset(
+    env,
+    CLOSED_HISTORY_DATASET,
+    [],
+    null,
+    options,
+  );
+  await writeQueueSummary(env, {
+    checkedAt: options.updatedAt,
+    page1ETag: null,
+    latestMergedAt: MERGED_PR.mergedAt,
+    latestClosedAt: null,
+    mergedReconciledAt: null,
+    queue: config,
+    ...buildQueueSummaryMetrics(config, open, merged, []),
+    datasets: {
+      openQueue: openQueue.pointer,
+      mergedHistory: mergedHistory.pointer,
+      closedHistory: closedHistory.pointer,
+    },
+  });
+}
+
+async function readDataset<T>(
+  env: Env,
+  dataset: string,
+  schema: { parse: (value: unknown) => T },
+): Promise<T> {
+  return schema.parse(await readDatasetJSON<unknown>(env.QUEUE_DATA, dataset));
+}
+
+describe("handleGitHubWebhook", () => {
+  let env: Env;
+
+  beforeEach(async () => {
+    env = createMemoryEnv({ GITHUB_WEBHOOK_SECRET: SECRET });
+    await seedSnapshot(env);
+  });
+
+  describe("signature verification", () => {
+    it("rejects deliveries without a signature", async () => {
+      const response = await deliver(env, labeledDelivery, null);
+      expect(response.status).toBe(401);
+    });
+
+    it("rejects signatures made with another secret", async () => {
+      const signature = await sign("another-secret", labeledDelivery);
+      const response = await deliver(env, labeledDelivery, signature);
+      expect(response.status).toBe(401);
+    });
+
+    it("rejects a body changed after signing", async () => {
+      const signature = await sign(SECRET, labeledDelivery);
+      const response = await deliver(
+        env,
+        labeledDelivery.replace("Word Sprint", "Word Sprint 2"),
+        signature,
+      );
+      expect(response.status).toBe(401);
+    });
+
+    it("rejects malformed signature headers", async () => {
+      const response = await deliver(env, labeledDelivery, "sha256=zz");
+      expect(response.status).toBe(401);
+    });
+
+    it("answers pings signed with the secret", async () => {
+      const body = JSON.stringify({ zen: "Keep it logically awesome." });
+      const response = await deliver(
+        env,
+        body,
+        await sign(SECRET, body),
+        "ping",
+      );
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ message: "pong" });
+    });
+  });
+
+  it("adds a PR labeled ready for review to the open queue", async () => {
+    const response = await deliver(
+      env,
+      labeledDelivery,
+      await sign(SECRET, labeledDelivery),
+    );
+
+    expect(response.status).toBe(200);
+    const open = await readDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openQueueDatasetSchema,
+    );
+    expect(open.map((pr) => pr.id)).toEqual([7001, 7101]);
+    expect((await readQueueSummary(env))?.totals.byType["plugin"]).toBe(2);
+  });
+
+  it("keeps what ingest stored for a PR that is already open", async () => {
+    const manifest = {
+      id: "word-sprint",
+      name: "Word Sprint",
+      author: "Ada",
+      description: "Timed writing sprints.",
+      repo: "ada/word-sprint",
+    };
+    await seedSnapshot(env, [
+      OPEN_PR,
+      {
+        id: 7101,
+        title: "Add plugin: Word Sprint",
+        url: "https://github.com/obsidianmd/obsidian-releases/pull/7101",
+        type: "plugin",
+        createdAt: "2026-10-10T08:00:00Z",
+        readyForReviewAt: "2026-10-11T08:00:00Z",
+        manifest,
+      },
+    ]);
+
+    const response = await deliver(
+      env,
+      labeledDelivery,
+      await sign(SECRET, labeledDelivery),
+    );
+
+    expect(response.status).toBe(200);
+    const open = await readDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openQueueDatasetSchema,
+    );
+    expect(open.find((pr) => pr.id === 7101)).toMatchObject({
+      readyForReviewAt: "2026-10-11T08:00:00Z",
+      manifest,
+    });
+  });
+
+  it("keeps the earlier attempts of a PR that is already open", async () => {
+    const previousAttempts = [
+      {
+        id: 6650,
+        url: "https://github.com/obsidianmd/obsidian-releases/pull/6650",
+        createdAt: "2026-06-02T08:00:00Z",
+        closedAt: "2026-07-01T08:00:00Z",
+      },
+    ];
+    await seedSnapshot(env, [
+      OPEN_PR,
+      {
+        id: 7101,
+        title: "Add plugin: Word Sprint",
+        url: "https://github.com/obsidianmd/obsidian-releases/pull/7101",
+        type: "plugin",
+        createdAt: "2026-10-10T08:00:00Z",
+        previousAttempts,
+        firstSubmittedAt: "2026-06-02T08:00:00Z",
+      },
+    ]);
+
+    await deliver(env, labeledDelivery, await sign(SECRET, labeledDelivery));
+
+    const open = await readDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openQueueDatasetSchema,
+    );
+    expect(open.find((pr) => pr.id === 7101)).toMatchObject({
+      previousAttempts,
+      firstSubmittedAt: "2026-06-02T08:00:00Z",
+    });
+  });
+
+  it("moves a merged PR from the open queue to the merged history", async () => {
+    const response = await deliver(
+      env,
+      mergedDelivery,
+      await sign(SECRET, mergedDelivery),
+    );
+
+    expect(response.status).toBe(200);
+    const open = await readDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openQueueDatasetSchema,
+    );
+    const merged = await readDataset(
+      env,
+      MERGED_HISTORY_DATASET,
+      mergedQueueDatasetSchema,
+    );
+    expect(open).toEqual([]);
+    expect(merged.map((pr) => [pr.id, pr.daysToMerge])).toEqual([
+      [6900, 61],
+      [7001, 47],
+    ]);
+  });
+
+  it("appends a PR closed without merge to the closed history", async () => {
+    const response = await deliver(
+      env,
+      closedDelivery,
+      await sign(SECRET, closedDelivery),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      applied: true,
+      closedDatasetUpdated: true,
+    });
+    const closed = await readDataset(
+      env,
+      CLOSED_HISTORY_DATASET,
+      closedQueueDatasetSchema,
+    );
+    expect(closed).toEqual([
+      {
+        id: 7002,
+        title: "Add theme: Midnight",
+        url: "https://github.com/obsidianmd/obsidian-releases/pull/7002",
+        type: "theme",
+        createdAt: "2026-10-08T12:00:00Z",
+        closedAt: "2026-10-18T11:00:00Z",
+        daysOpen: 10,
+        labels: ["theme", "Validation failed"],
+      },
+    ]);
+    const summary = await readQueueSummary(env);
+    expect(summary?.closureRates["theme"]).toEqual({
+      closed: 1,
+      merged: 0,
+      rate: 1,
+    });
+  });
+
+  it("does not append the same closure twice", async () => {
+    const signature = await sign(SECRET, closedDelivery);
+    await deliver(env, closedDelivery, signature);
+    const response = await deliver(env, closedDelivery, signature);
+
+    expect(await response.json()).toMatchObject({ applied: false });
+    const closed = await readDataset(
+      env,
+      CLOSED_HISTORY_DATASET,
+      closedQueueDatasetSchema,
+    );
+    expect(closed).toHaveLength(1);
+  });
+
+  it("queues events that arrive during an ingest and applies them afterwards", async () => {
+    await acquireIngestLock(env, "cron", "ingest-run");
+
+    const response = await deliver(
+      env,
+      labeledDelivery,
+      await sign(SECRET, labeledDelivery),
+    );
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({
+      queued: true,
+      runningRunId: "ingest-run",
+    });
+    let open = await readDataset(
+      env,
+      OPEN_QUEUE_DATASET,
+      openQueueDatasetSchema,
+    );
+    expect(open.map((pr) => pr.id)).toEqual([7001]);
+
+    expect(await applyQueuedWebhookEvents(env)).toBe(1);
+    await releaseIngestLock(env, "ingest-run");
+
+    open = await readDataset(env, OPEN_QUEUE_DATASET, openQueueDatasetSchema);
+    expect(open.map((pr) => pr.id)).toEqual([7001, 7101]);
+    expect(await applyQueuedWebhookEvents(env)).toBe(0);
+  });
+});
@@ -0,0 +1,581 @@
+import { z } from "zod";
+import { computeQueueProjections } from "./metrics.ts";
+import { resolveTypeFromLabels } from "./queueConfig.ts";
+import { readQueueSummary, writeQueueSummary } from "./queueStore.ts";
+import { readDatasetJSON } from "./datasetCache.ts";
+import {
+  CLOSED_HISTORY_DATASET,
+  MERGED_HISTORY_DATASET,
+  OPEN_QUEUE_DATASET,
+  buildQueueSummaryMetrics,
+  normalizeBaseUrl,
+  persistDataset,
+} from "./queueSnapshot.ts";
+import { describeError } from "./log.ts";
+import { releaseIngestLock, waitForIngestLock } from "./ingestLock.ts";
+import {
+  closedQueueDatasetSchema,
+  mergedQueueDatasetSchema,
+  openQueueDatasetSchema,
+  type ClosedPullRequest,
+  type MergedPullRequest,
+  type PullRequest,
+  type QueueConfig,
+} from "../shared/queueSchema.ts";
+
+const SIGNATURE_PREFIX = "sha256=";
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/i;
+const HANDLED_ACTIONS = new Set(["labeled", "unlabeled", "closed"]);
+const DAY_MS = 1000 * 60 * 60 * 24;
+// A targeted update takes seconds; a crashed delivery frees the lease quickly.
+const WEBHOOK_LEASE_MS = 60 * 1000;
+// Long enough to wait out another delivery, short of GitHub's 10 s timeout.
+const WEBHOOK_LOCK_WAIT_MS = 4_000;
+const WEBHOOK_LOCK_RETRY_MS = 500;
+// Events queued during an ingest are applied when that run finishes; the TTL
+// only matters if no run ever picks them up.
+const QUEUED_EVENT_PREFIX = "webhook-queued:";
+const QUEUED_EVENT_TTL_SECONDS = 24 * 60 * 60;
+
+const isoDateTime = z.string().datetime({ offset: true });
+const webhookUserSchema = z.object({ login: z.string() }).nullable();
+
+const webhookPullRequestSchema = z.object({
+  number: z.number().int().nonnegative(),
+  title: z.string(),
+  html_url: z.string().url(),
+  state: z.enum(["open", "closed"]),
+  created_at: isoDateTime,
+  merged: z.boolean().nullable().optional(),
+  merged_at: isoDateTime.nullable(),
+  closed_at: isoDateTime.nullable().optional(),
+  merge_commit_sha: z.string().nullable().optional(),
+  labels: z.array(z.object({ name: z.string() })),
+  user: webhookUserSchema,
+  merged_by: webhookUserSchema.optional(),
+  commits: z.number().int().nonnegative().optional(),
+  additions: z.number().int().nonnegative().optional(),
+  deletions: z.number().int().nonnegative().optional(),
+  changed_files: z.number().int().nonnegative().optional(),
+});
+
+const pullRequestEventSchema = z.object({
+  action: z.string(),
+  pull_request: webhookPullRequestSchema,
+  repository: z.object({ full_name: z.string() }),
+});
+
+type PullRequestEvent = z.infer<typeof pullRequestEventSchema>;
+type WebhookPullRequest = PullRequestEvent["pull_request"];
+
+interface WebhookResult {
+  applied: boolean;
+  message: string;
+  event: string;
+  action?: string;
+  pullRequest?: number;
+  openDatasetUpdated?: boolean;
+  mergedDatasetUpdated?: boolean;
+  closedDatasetUpdated?: boolean;
+}
+
+function decodeHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let index = 0; index < bytes.length; index += 1) {
+    bytes[index] = Number.parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Check an `X-Hub-Signature-256` header against the raw request body.
+ *
+ * `crypto.subtle.verify` compares the digests in constant time, so a mismatch
+ * does not leak how many leading bytes were correct.
+ *
+ * @param secret - Shared webhook secret configured on GitHub.
+ * @param body - Raw request body exactly as received.
+ * @param header - Signature header value, e.g. `sha256=<hex>`.
+ * @returns Whether the signature matches.
+ */
+async function verifySignature(
+  secret: string,
+  body: string,
+  header: string | null,
+): Promise<boolean> {
+  if (!header?.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+  const hex = header.slice(SIGNATURE_PREFIX.length);
+  if (!SIGNATURE_PATTERN.test(hex)) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify(
+    "HMAC",
+    key,
+    decodeHex(hex),
+    encoder.encode(body),
+  );
+}
+
+function isSameRepository(fullName: string, config: QueueConfig): boolean {
+  return (
+    fullName.toLowerCase() === `${config.owner}/${config.repo}`.toLowerCase()
+  );
+}
+
+/**
+ * Map the webhook PR onto an open queue row, or `null` when it left the queue.
+ */
+function toOpenQueueEntry(
+  pr: WebhookPullRequest,
+  config: QueueConfig,
+): PullRequest | null {
+  const labels = pr.labels.map((label) => label.name);
+  if (pr.state !== "open" || !labels.includes(config.readyLabel)) {
+    return null;
+  }
+  const type = resolveTypeFromLabels(labels, config);
+  if (type === "unknown") {
+    return null;
+  }
+  return {
+    id: pr.number,
+    title: pr.title,
+    url: pr.html_url,
+    type,
+    createdAt: pr.created_at,
+  };
+}
+
+/**
+ * Map a merged webhook PR onto a merged history row.
+ *
+ * Webhook payloads carry no label timeline, so the review queue fields stay
+ * unset until the next full ingest replaces the row with the searched copy.
+ * Ghost merges (no commits or file changes) are skipped like during ingest.
+ */
+function toMergedHistoryEntry(
+  pr: WebhookPullRequest,
+  config: QueueConfig,
+): MergedPullRequest | null {
+  if (!pr.merged_at || pr.merged === false) {
+    return null;
+  }
+  if (pr.commits === 0 || pr.changed_files === 0) {
+    return null;
+  }
+  const type = resolveTypeFromLabels(
+    pr.labels.map((label) => label.name),
+    config,
+  );
+  if (type === "unknown") {
+    return null;
+  }
+
+  const daysToMerge = Math.round(
+    (new Date(pr.merged_at).getTime() - new Date(pr.created_at).getTime()) /
+      DAY_MS,
+  );
+
+  return {
+    id: pr.number,
+    title: pr.title,
+    url: pr.html_url,
+    type,
+    createdAt: pr.created_at,
+    mergedAt: pr.merged_at,
+    daysToMerge,
+    author: pr.user?.login ?? null,
+    mergedBy: pr.merged_by?.login ?? null,
+    mergeCommitSha: pr.merge_commit_sha ?? null,
+    ...(pr.additions !== undefined ? { additions: pr.additions } : {}),
+    ...(pr.deletions !== undefined ? { deletions: pr.deletions } : {}),
+    ...(pr.changed_files !== undefined
+      ? { changedFiles: pr.changed_files }
+      : {}),
+  };
+}
+
+/**
+ * Map a PR closed without merge onto a closed history row, mirroring ingest.
+ */
+function toClosedHistoryEntry(
+  pr: WebhookPullRequest,
+  config: QueueConfig,
+): ClosedPullRequest | null {
+  if (pr.state !== "closed" || !pr.closed_at || pr.merged_at || pr.merged) {
+    return null;
+  }
+  const labels = pr.labels.map((label) => label.name);
+  const type = resolveTypeFromLabels(labels, config);
+  if (type === "unknown") {
+    return null;
+  }
+
+  return {
+    id: pr.number,
+    title: pr.title,
+    url: pr.html_url,
+    type,
+    createdAt: pr.created_at,
+    closedAt: pr.closed_at,
+    daysOpen: Math.max(
+      0,
+      Math.round(
+        (new Date(pr.closed_at).getTime() - new Date(pr.created_at).getTime()) /
+          DAY_MS,
+      ),
+    ),
+    labels,
+  };
+}
+
+async function readValidatedDataset<T>(
+  env: Env,
+  dataset: string,
+  schema: z.ZodType<T>,
+): Promise<T | null> {
+  const parsed = schema.safeParse(
+    await readDatasetJSON<unknown>(env.QUEUE_DATA, dataset),
+  );
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Apply a single `pull_request` event to the stored open, merged and closed
+ * datasets.
+ *
+ * Only the affected PR is added, moved or removed; everything else is taken
+ * from the datasets written by the last ingest. Watermarks are left untouched
+ * so the next scheduled ingest still fetches the complete record.
+ */
+async function applyPullRequestEvent(
+  env: Env,
+  payload: PullRequestEvent,
+): Promise<WebhookResult> {
+  const pr = payload.pull_request;
+  const base = {
+    event: "pull_request",
+    action: payload.action,
+    pullRequest: pr.number,
+  };
+
+  const summary = await readQueueSummary(env);
+  const openPointer = summary?.datasets.openQueue ?? null;
+  const mergedPointer = summary?.datasets.mergedHistory ?? null;
+  if (!summary || !openPointer || !mergedPointer) {
+    return {
+      ...base,
+      applied: false,
+      message: "No ingested snapshot yet; event ignored.",
+    };
+  }
+
+  const config = summary.queue;
+  if (!isSameRepository(payload.repository.full_name, config)) {
+    return {
+      ...base,
+      applied: false,
+      message: `Event for ${payload.repository.full_name} does not match the configured repository.`,
+    };
+  }
+
+  const [cachedOpen, cachedMerged, cachedClosed] = await Promise.all([
+    readValidatedDataset(env, OPEN_QUEUE_DATASET, openQueueDatasetSchema),
+    readValidatedDataset(env, MERGED_HISTORY_DATASET, mergedQueueDatasetSchema),
+    readValidatedDataset(env, CLOSED_HISTORY_DATASET, closedQueueDatasetSchema),
+  ]);
+  if (!cachedOpen || !cachedMerged) {
+    throw new Error("Stored queue datasets missing or invalid in KV storage.");
+  }
+
+  const openEntry = toOpenQueueEntry(pr, config);
+  const cachedRow = cachedOpen.find((row) => row.id === pr.number);
+  const openPrs = cachedOpen.filter((row) => row.id !== pr.number);
+  if (openEntry) {
+    // The event only carries the PR itself; keep what ingest derived for it
+    // (label history, manifest, earlier attempts) and refresh the rest.
+    openPrs.push(cachedRow ? { ...cachedRow, ...openEntry } : openEntry);
+    openPrs.sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+  }
+
+  let mergedPrs = cachedMerged;
+  const mergedEntry =
+    payload.action === "closed" ? toMergedHistoryEntry(pr, config) : null;
+  if (mergedEntry && !cachedMerged.some((row) => row.id === mergedEntry.id)) {
+    mergedPrs = [...cachedMerged, mergedEntry].sort(
+      (a, b) => new Date(a.mergedAt).getTime() - new Date(b.mergedAt).getTime(),
+    );
+  }
+
+  // A closure without merge joins the closed history so closure rates stay
+  // current; without a stored closed dataset it is left to the next ingest.
+  const closedPointer = summary.datasets.closedHistory;
+  let closedPrs = cachedClosed;
+  const closedEntry =
+    payload.action === "closed" ? toClosedHistoryEntry(pr, config) : null;
+  if (
+    closedEntry &&
+    cachedClosed &&
+    closedPointer &&
+    !cachedClosed.some((row) => row.id === closedEntry.id)
+  ) {
+    closedPrs = [...cachedClosed, closedEntry].sort(
+      (a, b) => new Date(a.closedAt).getTime() - new Date(b.closedAt).getTime(),
+    );
+  }
+
+  const projectedOpenPrs = computeQueueProjections(openPrs, mergedPrs);
+  const persistOptions = {
+    updatedAt: new Date().toISOString(),
+    baseUrl: normalizeBaseUrl(env.PUBLIC_BASE_URL),
+  };
+  const openWrite = await persistDataset(
+    env,
+    OPEN_QUEUE_DATASET,
+    projectedOpenPrs,
+    openPointer,
+    persistOptions,
+  );
+  const mergedWrite = await persistDataset(
+    env,
+    MERGED_HISTORY_DATASET,
+    mergedPrs,
+    mergedPointer,
+    persistOptions,
+  );
+
+  const closedWrite =
+    closedPrs && closedPrs !== cachedClosed
+      ? await persistDataset(
+          env,
+          CLOSED_HISTORY_DATASET,
+          closedPrs,
+          closedPointer,
+          persistOptions,
+        )
+      : null;
+  const closedDatasetUpdated = closedWrite?.updated ?? false;
+
+  if (!openWrite.updated && !mergedWrite.updated && !closedDatasetUpdated) {
+    return {
+      ...base,
+      applied: false,
+      message: "Event did not change the queue datasets.",
+      openDatasetUpdated: false,
+      mergedDatasetUpdated: false,
+      closedDatasetUpdated: false,
+    };
+  }
+
+  const metrics = buildQueueSummaryMetrics(
+    config,
+    projectedOpenPrs,
+    mergedPrs,
+    closedPrs ?? [],
+  );
+  // Per-state counts come from the full open-PR listing, which only ingest
+  // fetches; keep them until the next run.
+  const {
+    readyTotal: _readyTotal,
+    byType: _byType,
+    ...stateTotals
+  } = summary.totals;
+  await writeQueueSummary(env, {
+    ...summary,
+    ...metrics,
+    totals: { ...metrics.totals, ...stateTotals },
+    datasets: {
+      ...summary.datasets,
+      openQueue: openWrite.pointer,
+      mergedHistory: mergedWrite.pointer,
+      ...(closedWrite ? { closedHistory: closedWrite.pointer } : {}),
+    },
+  });
+
+  return {
+    ...base,
+    applied: true,
+    message: "Queue datasets updated from webhook event.",
+    openDatasetUpdated: openWrite.updated,
+    mergedDatasetUpdated: mergedWrite.updated,
+    closedDatasetUpdated,
+  };
+}
+
+/**
+ * Store an event that arrived while the ingest lease was held. Keys start with
+ * the receive time, so listing them returns the events in arrival order.
+ */
+async function queueWebhookEvent(
+  env: Env,
+  payload: PullRequestEvent,
+  deliveryId: string,
+): Promise<void> {
+  await env.QUEUE_DATA.put(
+    `${QUEUED_EVENT_PREFIX}${new Date().toISOString()}:${deliveryId}`,
+    JSON.stringify(payload),
+    { expirationTtl: QUEUED_EVENT_TTL_SECONDS },
+  );
+}
+
+/**
+ * Apply webhook events queued while the ingest lease was held, oldest first.
+ *
+ * Callers must hold the ingest lease. Each event is removed once handled;
+ * events that fail to apply are logged and dropped, as the next full ingest
+ * picks up their changes anyway.
+ *
+ * @param env - Worker bindings including the queue KV namespace.
+ * @returns How many queued events changed the datasets.
+ */
+export async function applyQueuedWebhookEvents(env: Env): Promise<number> {
+  const { keys } = await env.QUEUE_DATA.list({ prefix: QUEUED_EVENT_PREFIX });
+  let applied = 0;
+  for (const { name } of keys) {
+    const parsed = pullRequestEventSchema.safeParse(
+      await env.QUEUE_DATA.get(name, { type: "json" }),
+    );
+    if (parsed.success) {
+      try {
+        const result = await applyPullRequestEvent(env, parsed.data);
+        console.info(
+          `[Webhook] Queued ${parsed.data.action} #${parsed.data.pull_request.number}: ${result.message}`,
+        );
+        if (result.applied) applied += 1;
+      } catch (error) {
+        console.error(`[Webhook] Failed to apply queued event ${name}:`, error);
+      }
+    } else {
+      console.warn(`[Webhook] Dropping malformed queued event ${name}.`);
+    }
+    await env.QUEUE_DATA.delete(name);
+  }
+  return applied;
+}
+
+/**
+ * Handle a GitHub webhook delivery for the configured repository.
+ *
+ * Deliveries must carry a valid `X-Hub-Signature-256` signature for the
+ * `GITHUB_WEBHOOK_SECRET`. `pull_request` events with the `labeled`,
+ * `unlabeled` or `closed` action are applied as targeted dataset updates;
+ * other events are acknowledged and ignored. Events arriving while an ingest
+ * holds the lease are queued and applied when that run finishes.
+ *
+ * @param request - Incoming webhook request.
+ * @param env - Worker bindings including KV namespace and webhook secret.
+ * @returns JSON response describing whether the event was applied.
+ */
+export async function handleGitHubWebhook(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  if (!env.GITHUB_WEBHOOK_SECRET) {
+    return Response.json(
+      { error: "Webhook secret not configured" },
+      { status: 503 },
+    );
+  }
+
+  const body = await request.text();
+  const signature = request.headers.get("X-Hub-Signature-256");
+  if (!(await verifySignature(env.GITHUB_WEBHOOK_SECRET, body, signature))) {
+    return Response.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const event = request.headers.get("X-GitHub-Event") ?? "";
+  if (event === "ping") {
+    return Response.json({ applied: false, message: "pong", event });
+  }
+  if (event !== "pull_request") {
+    return Response.json(
+      { applied: false, message: "Event type ignored.", event },
+      { status: 202 },
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    return Response.json({ error: "Malformed JSON payload" }, { status: 400 });
+  }
+
+  const parsed = pullRequestEventSchema.safeParse(raw);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Unexpected pull_request payload" },
+      { status: 400 },
+    );
+  }
+
+  if (!HANDLED_ACTIONS.has(parsed.data.action)) {
+    return Response.json(
+      {
+        applied: false,
+        message: "Action ignored.",
+        event,
+        action: parsed.data.action,
+      },
+      { status: 202 },
+    );
+  }
+
+  // Share the ingest lock so event updates never interleave with a full run,
+  // but only for a short lease so a delivery never costs a cron tick.
+  const lockId = crypto.randomUUID();
+  const lock = await waitForIngestLock(env, "webhook", lockId, {
+    waitMs: WEBHOOK_LOCK_WAIT_MS,
+    retryDelayMs: WEBHOOK_LOCK_RETRY_MS,
+    leaseMs: WEBHOOK_LEASE_MS,
+  });
+  if (lock.status === "blocked") {
+    await queueWebhookEvent(
+      env,
+      parsed.data,
+      request.headers.get("X-GitHub-Delivery") ?? lockId,
+    );
+    return Response.json(
+      {
+        applied: false,
+        queued: true,
+        message: "Ingest in progress; event queued until the run finishes.",
+        event,
+        action: parsed.data.action,
+        pullRequest: parsed.data.pull_request.number,
+        runningRunId: lock.holder.runId,
+      },
+      { status: 202 },
+    );
+  }
+
+  try {
+    const result = await applyPullRequestEvent(env, parsed.data);
+    console.info(
+      `[Webhook] ${parsed.data.action} #${parsed.data.pull_request.number}: ${result.message}`,
+    );
+    return Response.json(result, { status: result.applied ? 200 : 202 });
+  } catch (error) {
+    console.error("[Webhook] Failed to apply pull_request event:", error);
+    return Response.json(
+      { error: "Failed to apply event", detail: describeError(error) },
+      { status: 500 },
+    );
+  } finally {
+    await releaseIngestLock(env, lockId);
+  }
+}